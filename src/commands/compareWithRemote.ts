@@ -0,0 +1,196 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ConfigService, NwabapConfig } from '../services/ConfigService';
+import { DeployService } from '../services/DeployService';
+import { CancelledError } from '../services/SapConnection';
+import { BspCompareProvider } from '../views/BspCompareProvider';
+import { BspFileSystemProvider } from '../views/BspFileSystemProvider';
+
+export async function compareWithRemoteCommand(
+    configService: ConfigService,
+    deployService: DeployService,
+    compareProvider: BspCompareProvider,
+    uri?: vscode.Uri
+): Promise<void> {
+    // Explorer selection, else the active editor, else ask for a folder
+    let selectedPath = uri?.fsPath;
+    if (!selectedPath && vscode.window.activeTextEditor?.document.uri.scheme === 'file') {
+        selectedPath = vscode.window.activeTextEditor.document.uri.fsPath;
+    }
+    if (!selectedPath) {
+        const folderUri = await vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            canSelectMany: false,
+            openLabel: 'Select Project Folder to Compare'
+        });
+        if (!folderUri || folderUri.length === 0) {
+            return;
+        }
+        selectedPath = folderUri[0].fsPath;
+    }
+
+    const isFile = fs.statSync(selectedPath).isFile();
+    const projectDir = findProjectDir(isFile ? path.dirname(selectedPath) : selectedPath);
+    const nwabaprc = configService.readNwabaprc(projectDir);
+
+    const target = await resolveTarget(configService, nwabaprc, projectDir);
+    if (!target) {
+        return;
+    }
+
+    // Same folder a deploy from the project would upload
+    const sourceDir = DeployService.resolveSourceDir(projectDir);
+
+    if (isFile) {
+        await compareFile(selectedPath, DeployService.resolveUploadDir(sourceDir), target.profile, target.bspName);
+        return;
+    }
+
+    try {
+        const comparison = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Comparing ${target.bspName} with ${target.profile}...`,
+                cancellable: true
+            },
+            (progress, token) => deployService.compareWithRemote(target.profile, target.bspName, sourceDir, progress, token)
+        );
+
+        compareProvider.setComparison(comparison);
+        vscode.commands.executeCommand('bspCompare.focus');
+
+        if (!comparison.applicationExists) {
+            vscode.window.showWarningMessage(`${target.bspName} does not exist on ${target.profile} yet. All local files are new.`);
+        } else {
+            vscode.window.showInformationMessage(
+                `${target.bspName}: ${comparison.modified.length} modified, ${comparison.added.length} only local, ${comparison.removed.length} only on server, ${comparison.unchanged.length} unchanged`
+            );
+        }
+    } catch (error: any) {
+        if (error instanceof CancelledError) {
+            return;
+        }
+        vscode.window.showErrorMessage(`Comparison failed: ${error.message || error}`);
+    }
+}
+
+/**
+ * Opens the diff editor between the remote and the local version of one file
+ */
+async function compareFile(filePath: string, localDir: string, profile: string, bspName: string): Promise<void> {
+    const relativePath = toRemotePath(filePath, localDir);
+    if (!relativePath) {
+        vscode.window.showErrorMessage(`${path.basename(filePath)} is not part of the deployed folder ${localDir}.`);
+        return;
+    }
+
+    const remoteUri = BspFileSystemProvider.uriFor(profile, bspName, relativePath);
+    try {
+        await vscode.workspace.fs.stat(remoteUri);
+    } catch (error: any) {
+        if (error instanceof vscode.FileSystemError && error.code === 'FileNotFound') {
+            vscode.window.showInformationMessage(`${relativePath} does not exist in ${bspName} on ${profile}.`);
+        } else {
+            vscode.window.showErrorMessage(`Could not read ${relativePath} from ${profile}: ${error.message || error}`);
+        }
+        return;
+    }
+
+    await vscode.commands.executeCommand(
+        'vscode.diff',
+        remoteUri,
+        vscode.Uri.file(filePath),
+        `${relativePath} (${profile}) ↔ Local`
+    );
+}
+
+/**
+ * Path of a local file inside the BSP. Files outside the deployed folder are
+ * matched through their webapp or dist folder, which share the same layout.
+ */
+function toRemotePath(filePath: string, localDir: string): string | undefined {
+    const candidates = [localDir];
+    for (let dir = path.dirname(filePath); dir !== path.dirname(dir); dir = path.dirname(dir)) {
+        if (['webapp', 'dist'].includes(path.basename(dir))) {
+            candidates.push(dir);
+            break;
+        }
+    }
+
+    for (const base of candidates) {
+        const relative = path.relative(base, filePath);
+        if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+            return relative.split(path.sep).join('/');
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Walks up to the folder that holds the project (.nwabaprc, package.json or webapp)
+ */
+function findProjectDir(startDir: string): string {
+    const workspaceRoot = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(startDir))?.uri.fsPath;
+
+    for (let dir = startDir; ; dir = path.dirname(dir)) {
+        if (['.nwabaprc', 'package.json', 'webapp'].some(name => fs.existsSync(path.join(dir, name)))) {
+            return dir;
+        }
+        if (dir === workspaceRoot || dir === path.dirname(dir)) {
+            return startDir;
+        }
+    }
+}
+
+/**
+ * Profile and BSP name from the project's .nwabaprc or the workspace's
+ * bsp-manager.json, or asked for
+ */
+async function resolveTarget(
+    configService: ConfigService,
+    nwabaprc: NwabapConfig | undefined,
+    projectDir: string
+): Promise<{ profile: string; bspName: string } | undefined> {
+    const workspaceConfig = configService.getWorkspaceConfig(projectDir);
+    let profile = nwabaprc ? configService.getNwabaprcProfile(nwabaprc)?.name : undefined;
+    if (!profile && workspaceConfig?.defaultProfile && configService.getProfile(workspaceConfig.defaultProfile)) {
+        profile = workspaceConfig.defaultProfile;
+    }
+
+    if (!profile) {
+        const profiles = configService.getProfiles();
+        if (profiles.length === 0) {
+            vscode.window.showErrorMessage('No SAP profiles configured. Please add a profile first.');
+            return undefined;
+        }
+
+        const defaultProfile = configService.getDefaultProfile();
+        const selected = await vscode.window.showQuickPick(
+            profiles.map(p => ({
+                label: p.name,
+                description: `${p.server} (Client: ${p.client})${p.name === defaultProfile ? ' - Default' : ''}`
+            })),
+            { placeHolder: 'Select the SAP profile to compare with' }
+        );
+        if (!selected) {
+            return undefined;
+        }
+        profile = selected.label;
+    }
+
+    let bspName = nwabaprc?.abap_bsp || workspaceConfig?.bspName;
+    if (!bspName) {
+        bspName = await vscode.window.showInputBox({
+            prompt: 'BSP Application Name',
+            placeHolder: 'ZUI5_MY_APP',
+            validateInput: (value) => value.trim() ? undefined : 'BSP name is required'
+        });
+        if (!bspName) {
+            return undefined;
+        }
+    }
+
+    return { profile, bspName: bspName.trim().toUpperCase() };
+}
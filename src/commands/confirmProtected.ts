@@ -0,0 +1,42 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigService, WORKSPACE_CONFIG_FILE } from '../services/ConfigService';
+
+/**
+ * Guardrail before anything is written to a profile's system. Read-only
+ * profiles are refused; confirm profiles need the profile name typed in.
+ * `action` completes "... to <profile>", e.g. "Deploy ZAPP".
+ * Returns true when the write may go ahead.
+ */
+export async function confirmProtectedWrite(configService: ConfigService, profileName: string, action: string): Promise<boolean> {
+    const protection = configService.getProtection(profileName);
+
+    if (protection === 'readOnly') {
+        vscode.window.showErrorMessage(`${action} refused: profile "${profileName}" is read-only. Change its protection in Edit Profile if this is intended.`);
+        return false;
+    }
+    if (protection !== 'confirm') {
+        return true;
+    }
+
+    const typed = await vscode.window.showInputBox({
+        title: `${action} to protected profile ${profileName}`,
+        prompt: `"${profileName}" is protected. Type the profile name to confirm.`,
+        placeHolder: profileName,
+        ignoreFocusOut: true,
+        validateInput: (value) => value.trim() === profileName ? undefined : `Type "${profileName}" to confirm`
+    });
+    return typed?.trim() === profileName;
+}
+
+/**
+ * Detail for the delete confirmation of a profile: workspace profiles are
+ * removed from the project file every team member shares.
+ */
+export function describeProfileDeletion(configService: ConfigService, profileName: string): string {
+    const source = configService.getProfileSource(profileName);
+    if (source?.kind === 'workspace') {
+        return `The profile is removed from ${path.join(source.folder || '', WORKSPACE_CONFIG_FILE)}, which is shared with everyone using this project. Its secrets on this machine are deleted.`;
+    }
+    return 'The profile and its secrets are removed from this VS Code. Workspace profiles are not affected.';
+}
@@ -0,0 +1,153 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ConfigService } from '../services/ConfigService';
+import { DeployPlan, DeployService } from '../services/DeployService';
+import { CancelledError } from '../services/SapConnection';
+
+export async function deployDryRunCommand(
+    configService: ConfigService,
+    deployService: DeployService,
+    uri?: vscode.Uri
+): Promise<void> {
+    // Resolve project folder from context menu or ask for it
+    let sourceDir = uri?.fsPath;
+    if (sourceDir && fs.existsSync(sourceDir) && fs.statSync(sourceDir).isFile()) {
+        sourceDir = path.dirname(sourceDir);
+    }
+
+    if (!sourceDir) {
+        const folderUri = await vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            canSelectMany: false,
+            openLabel: 'Select Project Folder to Preview'
+        });
+        if (!folderUri || folderUri.length === 0) {
+            return;
+        }
+        sourceDir = folderUri[0].fsPath;
+    }
+
+    const profiles = configService.getProfiles();
+    if (profiles.length === 0) {
+        vscode.window.showErrorMessage('No SAP profiles configured. Please add a profile first.');
+        return;
+    }
+
+    const defaultProfile = configService.getProjectDefaultProfile(sourceDir);
+    const selectedProfile = await vscode.window.showQuickPick(
+        // The project's default target first
+        [...profiles].sort((a, b) => Number(b.name === defaultProfile) - Number(a.name === defaultProfile)).map(p => ({
+            label: p.name,
+            description: `${p.server} (Client: ${p.client})${p.name === defaultProfile ? ' - Default' : ''}`
+        })),
+        { placeHolder: 'Select target SAP profile for the preview' }
+    );
+
+    if (!selectedProfile) {
+        return;
+    }
+
+    // Prefill from an existing .nwabaprc next to or above the project folder,
+    // then from the workspace's bsp-manager.json
+    const nwabaprc = configService.readNwabaprc(sourceDir) || configService.readNwabaprc(path.dirname(sourceDir));
+    const workspaceConfig = configService.getWorkspaceConfig(sourceDir);
+
+    const bspName = await vscode.window.showInputBox({
+        prompt: 'BSP Application Name',
+        placeHolder: 'ZUI5_MY_APP',
+        value: nwabaprc?.abap_bsp || workspaceConfig?.bspName || '',
+        validateInput: (value) => value.trim() ? undefined : 'BSP name is required'
+    });
+
+    if (!bspName) {
+        return;
+    }
+
+    const appName = bspName.trim().toUpperCase();
+
+    // Existing applications already know their package and lock transport
+    const existing = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Checking ${appName}...` },
+        () => deployService.checkApplication(selectedProfile.label, appName)
+    );
+
+    let abapPackage = existing.exists ? existing.package : undefined;
+    if (!abapPackage) {
+        abapPackage = await vscode.window.showInputBox({
+            prompt: 'ABAP Package',
+            placeHolder: 'ZMY_PACKAGE or $TMP',
+            value: nwabaprc?.abap_package || workspaceConfig?.package || '$TMP'
+        });
+        if (!abapPackage) {
+            return;
+        }
+    }
+
+    let transport = existing.transport || '';
+    if (!transport && abapPackage !== '$TMP') {
+        const input = await vscode.window.showInputBox({
+            prompt: 'Transport Request (optional for the preview)',
+            placeHolder: 'e.g., S4DK900046',
+            value: nwabaprc?.abap_transport || ''
+        });
+        if (input === undefined) {
+            return;
+        }
+        transport = input.trim().toUpperCase();
+    }
+
+    const deletions = await vscode.window.showQuickPick(
+        [
+            { label: 'Keep remote-only files', value: false },
+            { label: 'Delete remote-only files (sync deletions)', value: true }
+        ],
+        { placeHolder: 'How should files that exist only on the server be handled?' }
+    );
+
+    if (!deletions) {
+        return;
+    }
+
+    try {
+        const plan = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Preparing deploy preview for ${appName}...`,
+                cancellable: true
+            },
+            (progress, token) => deployService.createDeployPlan(selectedProfile.label, {
+                bspName: appName,
+                package: abapPackage!.toUpperCase(),
+                transport,
+                sourceDir: sourceDir!,
+                syncDeletions: deletions.value
+            }, progress, token)
+        );
+
+        await showDeployPlan(plan);
+    } catch (error: any) {
+        if (error instanceof CancelledError) {
+            return;
+        }
+        vscode.window.showErrorMessage(`Deploy preview failed: ${error.message || error}`);
+    }
+}
+
+/**
+ * Opens a deploy plan as a Markdown report and as a JSON document
+ */
+export async function showDeployPlan(plan: DeployPlan): Promise<void> {
+    const report = await vscode.workspace.openTextDocument({
+        language: 'markdown',
+        content: DeployService.formatPlanReport(plan)
+    });
+    await vscode.window.showTextDocument(report, { preview: false });
+
+    const json = await vscode.workspace.openTextDocument({
+        language: 'json',
+        content: JSON.stringify(plan, null, 2)
+    });
+    await vscode.window.showTextDocument(json, { preview: false, viewColumn: vscode.ViewColumn.Beside });
+}
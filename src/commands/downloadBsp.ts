@@ -75,11 +75,19 @@ export async function downloadBspCommand(
         {
             location: vscode.ProgressLocation.Notification,
             title: `Downloading BSP: ${bspName}`,
-            cancellable: false
+            cancellable: true
         },
-        async (progress) => {
+        async (progress, token) => {
             try {
-                await bspService.downloadBspApplication(bspName!, targetDirectory, progress);
+                const result = await bspService.downloadBspApplication(bspName!, targetDirectory, progress, token);
+
+                if (result.cancelled) {
+                    vscode.window.showWarningMessage(
+                        `Download of "${bspName}" cancelled after ${result.files.length} file(s) were written to ${path.join(targetDirectory, bspName!)}.`,
+                        { modal: true, detail: result.files.join('\n') || 'No files were written.' }
+                    );
+                    return;
+                }
 
                 // Get BSP details for .nwabaprc
                 const details = await bspService.getBspDetails(bspName!);
@@ -103,8 +111,15 @@ export async function downloadBspCommand(
                     );
                 }
 
+                if (result.failed.length > 0) {
+                    vscode.window.showWarningMessage(
+                        `${result.failed.length} object(s) of "${bspName}" could not be downloaded.`,
+                        { modal: true, detail: result.failed.map(f => `${f.path}: ${f.error}`).join('\n') }
+                    );
+                }
+
                 vscode.window.showInformationMessage(
-                    `Successfully downloaded "${bspName}" to ${targetDirectory}`,
+                    `Downloaded "${bspName}" to ${targetDirectory} (${result.files.length} files)`,
                     'Open Folder'
                 ).then(selection => {
                     if (selection === 'Open Folder') {
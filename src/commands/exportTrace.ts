@@ -0,0 +1,39 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LogService } from '../services/LogService';
+
+/**
+ * Saves the recorded SAP requests as a HAR file for support tickets.
+ * Credentials, cookies and CSRF tokens are already removed while recording.
+ */
+export async function exportTraceCommand(extensionVersion: string): Promise<void> {
+    if (LogService.traceSize === 0) {
+        vscode.window.showInformationMessage('No SAP requests recorded yet. Reproduce the problem first, then export the trace.');
+        return;
+    }
+
+    const fileName = `bsp-manager-trace-${new Date().toISOString().replace(/[:.]/g, '-')}.har`;
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(folder ? path.join(folder, fileName) : fileName),
+        filters: { 'HAR': ['har'], 'JSON': ['json'] },
+        saveLabel: 'Export Trace'
+    });
+    if (!target) {
+        return;
+    }
+
+    try {
+        fs.writeFileSync(target.fsPath, JSON.stringify(LogService.exportTrace(extensionVersion), null, 2), 'utf8');
+        const selection = await vscode.window.showInformationMessage(
+            `Exported ${LogService.traceSize} request(s) to ${path.basename(target.fsPath)}. Please check the file before sharing it.`,
+            'Open'
+        );
+        if (selection === 'Open') {
+            vscode.commands.executeCommand('vscode.open', target);
+        }
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`Failed to export trace: ${error.message || error}`);
+    }
+}
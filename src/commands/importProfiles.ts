@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigService } from '../services/ConfigService';
+import { LandscapeImportService, ProfileProposal } from '../services/LandscapeImportService';
+
+/**
+ * Creates profiles from SAP Logon's SAPUILandscape.xml or a CSV file.
+ * The user picks the systems; client and user are asked once for entries
+ * that do not have them. Passwords are set later through Edit Profile.
+ */
+export async function importProfilesCommand(configService: ConfigService, onImported: () => void): Promise<void> {
+    const defaultFile = LandscapeImportService.defaultLandscapeFile();
+    const files = await vscode.window.showOpenDialog({
+        canSelectFiles: true,
+        canSelectFolders: false,
+        canSelectMany: false,
+        defaultUri: defaultFile ? vscode.Uri.file(defaultFile) : undefined,
+        filters: {
+            'SAP Logon Landscape': ['xml'],
+            'CSV (name, server, client, user)': ['csv']
+        },
+        openLabel: 'Import Profiles'
+    });
+    if (!files || files.length === 0) {
+        return;
+    }
+
+    let proposals: ProfileProposal[];
+    try {
+        proposals = LandscapeImportService.parseFile(files[0].fsPath);
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`Could not read ${path.basename(files[0].fsPath)}: ${error.message || error}`);
+        return;
+    }
+
+    // Existing profiles are never overwritten
+    const existing = configService.getProfiles();
+    const candidates = proposals.filter(p => !configService.getProfile(p.profile.name));
+    const skipped = proposals.length - candidates.length;
+    if (candidates.length === 0) {
+        vscode.window.showInformationMessage(
+            proposals.length === 0
+                ? `No SAP systems found in ${path.basename(files[0].fsPath)}.`
+                : `All ${proposals.length} systems in ${path.basename(files[0].fsPath)} already exist as profiles.`
+        );
+        return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+        candidates.map(proposal => {
+            const sameSystem = existing.find(p =>
+                p.server.replace(/\/+$/, '').toLowerCase() === proposal.profile.server.toLowerCase() &&
+                p.client === proposal.profile.client);
+            const notes = [...proposal.notes];
+            if (sameSystem) {
+                notes.unshift(`Same system as profile "${sameSystem.name}"`);
+            }
+            return {
+                label: proposal.profile.name,
+                description: `${proposal.profile.server}${proposal.profile.client ? ` (Client: ${proposal.profile.client})` : ''}`,
+                detail: notes.length > 0 ? `$(info) ${notes.join(' · ')}` : undefined,
+                picked: !sameSystem,
+                proposal
+            };
+        }),
+        {
+            canPickMany: true,
+            matchOnDescription: true,
+            placeHolder: skipped > 0
+                ? `Select the systems to import (${skipped} already exist as profiles and are not listed)`
+                : 'Select the systems to import'
+        }
+    );
+    if (!selected || selected.length === 0) {
+        return;
+    }
+
+    const profiles = selected.map(item => ({ ...item.proposal.profile }));
+
+    const withoutClient = profiles.filter(p => !p.client);
+    if (withoutClient.length > 0) {
+        const client = await vscode.window.showInputBox({
+            prompt: `Client for ${withoutClient.length} system(s) without one (${withoutClient.map(p => p.name).join(', ')})`,
+            value: '100',
+            validateInput: (value) => /^\d{3}$/.test(value.trim()) ? undefined : 'Client must be 3 digits (e.g. 100)'
+        });
+        if (client === undefined) {
+            return;
+        }
+        withoutClient.forEach(p => p.client = client.trim());
+    }
+
+    const withoutUser = profiles.filter(p => !p.user);
+    if (withoutUser.length > 0) {
+        const user = await vscode.window.showInputBox({
+            prompt: 'SAP user for the imported profiles',
+            placeHolder: 'DEVELOPER',
+            validateInput: (value) => value.trim() ? undefined : 'Username is required'
+        });
+        if (user === undefined) {
+            return;
+        }
+        withoutUser.forEach(p => p.user = user.trim().toUpperCase());
+    }
+
+    for (const profile of profiles) {
+        await configService.saveProfile(profile);
+    }
+    onImported();
+
+    const choice = await vscode.window.showInformationMessage(
+        `Imported ${profiles.length} profile(s). Set the password with Edit Profile before connecting.`,
+        'Edit Profile'
+    );
+    if (choice === 'Edit Profile') {
+        vscode.commands.executeCommand('bspManager.editProfile', profiles[0].name);
+    }
+}
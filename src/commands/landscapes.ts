@@ -0,0 +1,293 @@
+import * as vscode from 'vscode';
+import { ConfigService, Landscape, LandscapeTier } from '../services/ConfigService';
+import { DeployService, PromotionTarget } from '../services/DeployService';
+import { CancelledError } from '../services/SapConnection';
+import { confirmProtectedWrite } from './confirmProtected';
+
+/**
+ * Creates a landscape, or edits it when `existingName` is given: name, the
+ * tiers in promotion order and the profiles (clients) of each tier.
+ * A profile belongs to one tier of one landscape at most.
+ */
+export async function editLandscapeCommand(
+    configService: ConfigService,
+    onChanged: () => void,
+    existingName?: string
+): Promise<void> {
+    const existing = existingName ? configService.getLandscape(existingName) : undefined;
+    const others = configService.getLandscapes().filter(l => l.name !== existing?.name);
+
+    const name = await vscode.window.showInputBox({
+        prompt: 'Landscape name',
+        placeHolder: 'e.g. S/4 Finance',
+        value: existing?.name || '',
+        validateInput: (value) => {
+            if (!value.trim()) {
+                return 'Name is required';
+            }
+            return others.some(l => l.name === value.trim()) ? 'A landscape with this name already exists' : undefined;
+        }
+    });
+    if (!name) {
+        return;
+    }
+
+    const tierNames = await vscode.window.showInputBox({
+        prompt: 'Tiers in promotion order, separated by commas',
+        value: existing ? existing.tiers.map(t => t.name).join(', ') : 'DEV, QAS, PRD',
+        validateInput: (value) => {
+            const names = splitTierNames(value);
+            if (names.length < 2) {
+                return 'A landscape needs at least two tiers';
+            }
+            return new Set(names).size < names.length ? 'Tier names must be unique' : undefined;
+        }
+    });
+    if (!tierNames) {
+        return;
+    }
+
+    // Profiles of other landscapes are not offered
+    const taken = new Set(others.flatMap(l => l.tiers.flatMap(t => t.profiles)));
+    const available = configService.getProfiles().filter(p => !taken.has(p.name));
+    if (available.length === 0) {
+        vscode.window.showErrorMessage('All profiles already belong to a landscape. Please add a profile first.');
+        return;
+    }
+
+    const tiers: LandscapeTier[] = [];
+    const assigned = new Set<string>();
+    for (const tierName of splitTierNames(tierNames)) {
+        const previous = existing?.tiers.find(t => t.name === tierName)?.profiles || [];
+        const selected = await vscode.window.showQuickPick(
+            available.filter(p => !assigned.has(p.name)).map(p => ({
+                label: p.name,
+                description: `${p.server}${p.client ? ` (Client: ${p.client})` : ''}`,
+                picked: previous.includes(p.name)
+            })),
+            { canPickMany: true, placeHolder: `Profiles (clients) of tier ${tierName}` }
+        );
+        if (!selected) {
+            return;
+        }
+        selected.forEach(item => assigned.add(item.label));
+        tiers.push({ name: tierName, profiles: selected.map(item => item.label) });
+    }
+
+    await configService.saveLandscape({ name: name.trim(), tiers }, existing?.name);
+    onChanged();
+
+    const empty = tiers.filter(t => t.profiles.length === 0).map(t => t.name);
+    vscode.window.showInformationMessage(
+        `Landscape "${name.trim()}" saved.${empty.length > 0 ? ` Tier(s) without profiles: ${empty.join(', ')}.` : ''}`
+    );
+}
+
+export async function deleteLandscapeCommand(configService: ConfigService, name: string, onChanged: () => void): Promise<void> {
+    const confirm = await vscode.window.showWarningMessage(
+        `Delete landscape "${name}"? Its profiles are kept.`,
+        { modal: true },
+        'Delete'
+    );
+    if (confirm === 'Delete') {
+        await configService.deleteLandscape(name);
+        onChanged();
+    }
+}
+
+/**
+ * Deploys an application as it runs in one tier to the profiles of the next
+ * tier. Package and transport are checked for every target before anything
+ * is written; the user picks a transport request where one is required.
+ */
+export async function promoteCommand(
+    configService: ConfigService,
+    deployService: DeployService,
+    landscapeName?: string,
+    tierIndex?: number
+): Promise<void> {
+    const from = landscapeName !== undefined && tierIndex !== undefined
+        ? resolveTier(configService, landscapeName, tierIndex)
+        : await pickTier(configService);
+    if (!from) {
+        return;
+    }
+    const { landscape, index } = from;
+    const sourceTier = landscape.tiers[index];
+    const targetTier = landscape.tiers[index + 1];
+
+    const sourceProfile = sourceTier.profiles.length === 1
+        ? sourceTier.profiles[0]
+        : (await vscode.window.showQuickPick(sourceTier.profiles, { placeHolder: `Promote from which ${sourceTier.name} profile?` }));
+    if (!sourceProfile) {
+        return;
+    }
+
+    // Read-only profiles are never offered as a target
+    const writable = targetTier.profiles.filter(p => configService.getProtection(p) !== 'readOnly');
+    if (writable.length === 0) {
+        vscode.window.showErrorMessage(targetTier.profiles.length === 0
+            ? `Tier ${targetTier.name} of "${landscape.name}" has no profiles.`
+            : `All profiles of tier ${targetTier.name} are read-only, nothing can be promoted to them.`);
+        return;
+    }
+
+    const targetProfiles = writable.length === 1
+        ? writable
+        : (await vscode.window.showQuickPick(
+            writable.map(p => ({ label: p, picked: true })),
+            { canPickMany: true, placeHolder: `Promote to which ${targetTier.name} profiles?` }
+        ))?.map(item => item.label);
+    if (!targetProfiles || targetProfiles.length === 0) {
+        return;
+    }
+
+    const bspName = await vscode.window.showInputBox({
+        prompt: `BSP application to promote from ${sourceProfile} to ${targetTier.name}`,
+        placeHolder: 'ZUI5_MY_APP',
+        value: configService.getWorkspaceConfig()?.bspName || '',
+        validateInput: (value) => value.trim() ? undefined : 'BSP name is required'
+    });
+    if (!bspName) {
+        return;
+    }
+    const appName = bspName.trim().toUpperCase();
+
+    let prepared: PromotionTarget[];
+    try {
+        prepared = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Checking ${appName} in ${landscape.name}...` },
+            () => deployService.preparePromotion(sourceProfile, targetProfiles, appName)
+        );
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`Promotion not possible: ${error.message || error}`);
+        return;
+    }
+
+    const targets: Array<{ profile: string; package: string; description: string; transport: string }> = [];
+    for (const target of prepared) {
+        const transport = await chooseTransport(target, appName);
+        if (transport === undefined) {
+            return;
+        }
+        targets.push({ profile: target.profile, package: target.package, description: target.description, transport });
+    }
+
+    const summary = targets.map(t => {
+        const target = prepared.find(p => p.profile === t.profile)!;
+        return `${t.profile}: ${target.applicationExists ? 'update' : 'create'} in ${t.package}${t.transport ? `, transport ${t.transport}` : ''}`;
+    });
+    const confirm = await vscode.window.showWarningMessage(
+        `Promote ${appName} from ${sourceProfile} (${sourceTier.name}) to ${targetTier.name}?`,
+        { modal: true, detail: `${summary.join('\n')}\n\nThe targets get exactly the files running in ${sourceProfile}.` },
+        'Promote'
+    );
+    if (confirm !== 'Promote') {
+        return;
+    }
+    for (const target of targets) {
+        if (!(await confirmProtectedWrite(configService, target.profile, `Promote ${appName}`))) {
+            return;
+        }
+    }
+
+    try {
+        const results = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Promoting ${appName} to ${targetTier.name}`, cancellable: true },
+            (progress, token) => deployService.promote(sourceProfile, appName, targets, progress, async (profile, entries) => {
+                const choice = await vscode.window.showWarningMessage(
+                    `${entries.length} object(s) exist in ${profile} but not in ${sourceProfile}. Delete them?`,
+                    { modal: true, detail: entries.map(e => e.path).slice(0, 20).join('\n') },
+                    'Delete',
+                    'Keep Files'
+                );
+                // Dismissed: cancel instead of promoting with the extra files
+                return choice === undefined ? undefined : choice === 'Delete';
+            }, token)
+        );
+
+        const failed = results.filter(r => r.error);
+        const done = results.filter(r => r.result && !r.result.cancelled).map(r => r.profile);
+        if (failed.length > 0) {
+            vscode.window.showErrorMessage(
+                `Promotion of ${appName} failed for ${failed.map(r => r.profile).join(', ')}: ${failed[0].error}`
+                + (done.length > 0 ? ` Promoted to ${done.join(', ')}.` : '')
+            );
+        } else if (done.length < targets.length) {
+            vscode.window.showWarningMessage(`Promotion of ${appName} cancelled.${done.length > 0 ? ` Promoted to ${done.join(', ')}.` : ''}`);
+        } else {
+            vscode.window.showInformationMessage(`Promoted ${appName} from ${sourceProfile} to ${done.join(', ')}.`);
+        }
+    } catch (error: any) {
+        if (error instanceof CancelledError) {
+            vscode.window.showWarningMessage(`Promotion of ${appName} cancelled.`);
+            return;
+        }
+        vscode.window.showErrorMessage(`Promotion failed: ${error.message || error}`);
+    }
+}
+
+/**
+ * Transport request for a target: the one the application is locked in,
+ * none for local objects, otherwise picked or entered by the user.
+ * Undefined when the user cancelled.
+ */
+async function chooseTransport(target: PromotionTarget, appName: string): Promise<string | undefined> {
+    if (target.lockTransport) {
+        return target.lockTransport;
+    }
+    if (!target.transportCheck.required) {
+        return '';
+    }
+
+    const manual = 'Enter transport request...';
+    const picked = await vscode.window.showQuickPick(
+        [
+            ...target.transportCheck.availableRequests.map(r => ({ label: r.trId, description: r.description })),
+            { label: manual, description: '' }
+        ],
+        { placeHolder: `${target.profile} needs a transport request for ${appName} (package ${target.package})` }
+    );
+    if (!picked) {
+        return undefined;
+    }
+    if (picked.label !== manual) {
+        return picked.label;
+    }
+
+    const entered = await vscode.window.showInputBox({
+        prompt: `Transport request for ${appName} in ${target.profile}`,
+        placeHolder: 'DEVK900123',
+        validateInput: (value) => /^[A-Z0-9]{3}K\d{6}$/i.test(value.trim()) ? undefined : 'Enter a transport request like DEVK900123'
+    });
+    return entered === undefined ? undefined : entered.trim().toUpperCase();
+}
+
+function resolveTier(configService: ConfigService, landscapeName: string, index: number): { landscape: Landscape; index: number } | undefined {
+    const landscape = configService.getLandscape(landscapeName);
+    if (!landscape || index < 0 || index >= landscape.tiers.length - 1) {
+        vscode.window.showErrorMessage(`Nothing to promote to from this tier of "${landscapeName}".`);
+        return undefined;
+    }
+    return { landscape, index };
+}
+
+async function pickTier(configService: ConfigService): Promise<{ landscape: Landscape; index: number } | undefined> {
+    const paths = configService.getLandscapes().flatMap(landscape =>
+        landscape.tiers.slice(0, -1).map((tier, index) => ({
+            label: `${tier.name} → ${landscape.tiers[index + 1].name}`,
+            description: landscape.name,
+            landscape,
+            index
+        }))
+    );
+    if (paths.length === 0) {
+        vscode.window.showErrorMessage('No landscapes configured. Create one in the SAP Profiles view first.');
+        return undefined;
+    }
+    return vscode.window.showQuickPick(paths, { placeHolder: 'Select the promotion path' });
+}
+
+function splitTierNames(value: string): string[] {
+    return value.split(',').map(name => name.trim().toUpperCase()).filter(name => !!name);
+}
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { BspExplorerProvider } from '../views/BspExplorer';
+import { CancelledError } from '../services/SapConnection';
 
 export async function filterBspCommand(explorerProvider: BspExplorerProvider): Promise<void> {
     const currentSearch = explorerProvider.getSearchTerm();
@@ -37,11 +38,11 @@ export async function listBspCommand(explorerProvider: BspExplorerProvider): Pro
         {
             location: vscode.ProgressLocation.Notification,
             title: 'Loading BSP applications...',
-            cancellable: false
+            cancellable: true
         },
-        async () => {
+        async (_progress, token) => {
             try {
-                const applications = await bspService.listBspApplications();
+                const applications = await bspService.listBspApplications(undefined, token);
                 
                 const selected = await vscode.window.showQuickPick(
                     applications.map(app => ({
@@ -75,6 +76,9 @@ export async function listBspCommand(explorerProvider: BspExplorerProvider): Pro
                     }
                 }
             } catch (error) {
+                if (error instanceof CancelledError) {
+                    return;
+                }
                 vscode.window.showErrorMessage(`Failed to list BSP applications: ${error}`);
             }
         }
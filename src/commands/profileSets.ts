@@ -0,0 +1,187 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigService } from '../services/ConfigService';
+import { ProfileSetService } from '../services/ProfileSetService';
+import { SapProfile } from '../services/SapConnection';
+
+type ConflictMode = 'Skip' | 'Overwrite' | 'Rename';
+
+// Stored secrets belong to these settings; when one changes they are dropped
+const CREDENTIAL_FIELDS: Array<keyof SapProfile> = ['server', 'client', 'user', 'authType', 'proxyUrl', 'proxyUser'];
+
+/**
+ * Writes the selected profiles to a JSON file to share with the team.
+ * Passwords and other secrets are never written.
+ */
+export async function exportProfilesCommand(configService: ConfigService): Promise<void> {
+    const profiles = configService.getProfiles();
+    if (profiles.length === 0) {
+        vscode.window.showInformationMessage('No profiles to export.');
+        return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+        profiles.map(p => ({
+            label: p.name,
+            description: `${p.server}${p.client ? ` (Client: ${p.client})` : ''}`,
+            picked: true,
+            profile: p
+        })),
+        { canPickMany: true, placeHolder: 'Select the profiles to export (passwords are not exported)' }
+    );
+    if (!selected || selected.length === 0) {
+        return;
+    }
+
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(folder ? path.join(folder, 'bsp-profiles.json') : 'bsp-profiles.json'),
+        filters: { 'JSON': ['json'] },
+        saveLabel: 'Export Profiles'
+    });
+    if (!target) {
+        return;
+    }
+
+    try {
+        fs.writeFileSync(target.fsPath, ProfileSetService.serialize(selected.map(item => item.profile)), 'utf8');
+        vscode.window.showInformationMessage(`Exported ${selected.length} profile(s) to ${path.basename(target.fsPath)}. Passwords are not included.`);
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`Failed to export profiles: ${error.message || error}`);
+    }
+}
+
+/**
+ * Reads a profile file written by exportProfilesCommand. Name conflicts are
+ * skipped, overwritten or renamed as the user chooses; afterwards the
+ * missing passwords are asked for. `onImported` gets the saved profile names.
+ */
+export async function importProfilesFromFileCommand(
+    configService: ConfigService,
+    onImported: (names: string[]) => void
+): Promise<void> {
+    const files = await vscode.window.showOpenDialog({
+        canSelectFiles: true,
+        canSelectFolders: false,
+        canSelectMany: false,
+        filters: { 'BSP Manager Profiles': ['json'] },
+        openLabel: 'Import Profiles'
+    });
+    if (!files || files.length === 0) {
+        return;
+    }
+
+    let profiles: SapProfile[];
+    try {
+        profiles = ProfileSetService.parse(fs.readFileSync(files[0].fsPath, 'utf8'));
+    } catch (error: any) {
+        const [summary, ...details] = String(error.message || error).split('\n');
+        vscode.window.showErrorMessage(summary, { modal: true, detail: details.join('\n') || undefined });
+        return;
+    }
+    if (profiles.length === 0) {
+        vscode.window.showInformationMessage('The file contains no profiles.');
+        return;
+    }
+
+    const conflicts = profiles.filter(p => configService.getProfile(p.name));
+    let mode: ConflictMode = 'Skip';
+    if (conflicts.length > 0) {
+        const choice = await vscode.window.showWarningMessage(
+            `${conflicts.length} profile(s) already exist: ${conflicts.map(p => p.name).join(', ')}`,
+            { modal: true, detail: 'Skip keeps your profiles, Overwrite replaces them (stored passwords are kept only if server, client, user and authentication are unchanged), Rename imports them under a new name.' },
+            'Skip', 'Overwrite', 'Rename'
+        );
+        if (!choice) {
+            return;
+        }
+        mode = choice as ConflictMode;
+    }
+
+    const imported: SapProfile[] = [];
+    for (const profile of profiles) {
+        const existing = configService.getProfile(profile.name);
+        if (existing) {
+            if (mode === 'Skip') {
+                continue;
+            }
+            if (mode === 'Rename') {
+                profile.name = uniqueName(configService, profile.name);
+            } else if (credentialsChanged(existing, profile)) {
+                // The old password must not be sent to another server or user
+                await configService.deleteSecrets(profile.name);
+            }
+        }
+        await configService.saveProfile(profile);
+        imported.push(profile);
+    }
+    onImported(imported.map(p => p.name));
+
+    if (imported.length === 0) {
+        vscode.window.showInformationMessage('No profiles imported, all of them already exist.');
+        return;
+    }
+
+    const pending = await askForSecrets(configService, imported);
+    vscode.window.showInformationMessage(
+        `Imported ${imported.length} profile(s)${profiles.length > imported.length ? `, skipped ${profiles.length - imported.length}` : ''}.`
+        + (pending.length > 0 ? ` Complete ${pending.join(', ')} with Edit Profile before connecting.` : '')
+    );
+}
+
+/**
+ * Asks for the password (and proxy password) of each imported profile that
+ * has none stored. Returns the profiles that still need credentials.
+ */
+async function askForSecrets(configService: ConfigService, profiles: SapProfile[]): Promise<string[]> {
+    const pending: string[] = [];
+    for (const profile of profiles) {
+        const authType = profile.authType || 'basic';
+
+        if (authType === 'basic' && !(await configService.getPassword(profile.name))) {
+            const password = await vscode.window.showInputBox({
+                title: `Password for ${profile.name}`,
+                prompt: `${profile.user} on ${profile.server} (Client ${profile.client}). Leave empty to set it later.`,
+                password: true,
+                ignoreFocusOut: true
+            });
+            if (password) {
+                await configService.storePassword(profile.name, password);
+            } else {
+                pending.push(profile.name);
+            }
+        } else if (authType === 'oauth' && !(await configService.getServiceKey(profile.name))) {
+            // The service key is too long for an input box
+            pending.push(profile.name);
+        }
+
+        if (profile.proxyUser && !(await configService.getProxyPassword(profile.name))) {
+            const proxyPassword = await vscode.window.showInputBox({
+                title: `Proxy password for ${profile.name}`,
+                prompt: `${profile.proxyUser} on ${profile.proxyUrl}. Leave empty if the proxy needs none.`,
+                password: true,
+                ignoreFocusOut: true
+            });
+            if (proxyPassword) {
+                await configService.storeProxyPassword(profile.name, proxyPassword);
+            }
+        }
+    }
+    return pending;
+}
+
+function credentialsChanged(existing: SapProfile, imported: SapProfile): boolean {
+    const value = (profile: SapProfile, field: keyof SapProfile) =>
+        field === 'authType' ? profile.authType || 'basic' : profile[field] || '';
+    return CREDENTIAL_FIELDS.some(field => value(existing, field) !== value(imported, field));
+}
+
+function uniqueName(configService: ConfigService, name: string): string {
+    for (let i = 2; ; i++) {
+        const candidate = `${name} (${i})`;
+        if (!configService.getProfile(candidate)) {
+            return candidate;
+        }
+    }
+}
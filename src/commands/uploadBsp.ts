@@ -1,10 +1,13 @@
 import * as vscode from 'vscode';
-import * as cp from 'child_process';
 import * as path from 'path';
 import * as fs from 'fs';
 import { ConfigService } from '../services/ConfigService';
+import { ConnectionManager } from '../services/ConnectionManager';
+import { CancelledError } from '../services/SapConnection';
+import { UploadService } from '../services/UploadService';
+import { confirmProtectedWrite } from './confirmProtected';
 
-export async function uploadBspCommand(configService: ConfigService): Promise<void> {
+export async function uploadBspCommand(configService: ConfigService, connections: ConnectionManager): Promise<void> {
     // Get current workspace folder
     const workspaceFolders = vscode.workspace.workspaceFolders;
     
@@ -63,9 +66,43 @@ export async function uploadBspCommand(configService: ConfigService): Promise<vo
         return;
     }
 
+    // Credentials come from the referenced profile, never from the file itself
+    let profile = configService.getNwabaprcProfile(config);
+    if (!profile) {
+        const profiles = configService.getProfiles();
+        const selected = await vscode.window.showQuickPick(
+            profiles.map(p => ({
+                label: p.name,
+                description: `${p.server} (Client: ${p.client})`
+            })),
+            { placeHolder: `Select the SAP profile to deploy "${config.abap_bsp}" with` }
+        );
+        if (!selected) {
+            return;
+        }
+        profile = configService.getProfile(selected.label)!;
+    }
+
+    const hadPassword = config.conn_password !== undefined;
+    if (hadPassword || config.profile !== profile.name) {
+        config.profile = profile.name;
+        configService.writeNwabaprc(projectFolder, config);
+        if (hadPassword) {
+            vscode.window.showWarningMessage(
+                `Removed the plaintext password from .nwabaprc. The password of profile "${profile.name}" is used instead.`
+            );
+        }
+    }
+
+    // Read-only profiles are refused before anything is asked
+    if (configService.getProtection(profile.name) === 'readOnly') {
+        await confirmProtectedWrite(configService, profile.name, `Deploy ${config.abap_bsp}`);
+        return;
+    }
+
     // Confirm deployment
     const confirm = await vscode.window.showInformationMessage(
-        `Deploy to BSP "${config.abap_bsp}" on ${config.conn_server}?`,
+        `Deploy to BSP "${config.abap_bsp}" on ${profile.server} (profile ${profile.name})?`,
         { modal: true },
         'Deploy',
         'Cancel'
@@ -74,31 +111,76 @@ export async function uploadBspCommand(configService: ConfigService): Promise<vo
     if (confirm !== 'Deploy') {
         return;
     }
+    if (!(await confirmProtectedWrite(configService, profile.name, `Deploy ${config.abap_bsp}`))) {
+        return;
+    }
+
+    // The shared session of the profile, as for every other deploy
+    const connection = await connections.get(profile.name);
+    if (!connection) {
+        vscode.window.showErrorMessage(`Password for profile "${profile.name}" is not set. Please edit the profile first.`);
+        return;
+    }
 
-    // Run nwabap upload
+    // Upload through the ADT filestore
     await vscode.window.withProgress(
         {
             location: vscode.ProgressLocation.Notification,
             title: `Deploying BSP: ${config.abap_bsp}`,
-            cancellable: false
+            cancellable: true
         },
-        async (progress) => {
+        async (progress, token) => {
             progress.report({ message: 'Starting upload...' });
 
-            return new Promise<void>(async (resolve, reject) => {
-                try {
-                    const { DeployService } = require('../services/DeployService');
-                    await DeployService.runNwabapUpload(projectFolder!, progress);
-                    
-                    vscode.window.showInformationMessage(
-                        `Successfully deployed "${config!.abap_bsp}" to SAP!`
+            try {
+                const uploadService = new UploadService(connection);
+                const delta = vscode.workspace.getConfiguration('bspManager').get<boolean>('deltaDeploy', true);
+
+                const plan = await uploadService.createPlan(
+                    path.resolve(projectFolder!, config.base || '.'),
+                    config.abap_bsp,
+                    { delta, manifest: configService.getDeployManifest(profile!, config.abap_bsp) },
+                    progress,
+                    token
+                );
+                const result = await uploadService.execute(
+                    plan,
+                    {
+                        bspName: config.abap_bsp,
+                        package: config.abap_package,
+                        description: config.abap_bsp_text,
+                        transport: config.abap_transport
+                    },
+                    progress,
+                    undefined,
+                    token
+                );
+                await configService.saveDeployManifest(profile!, config.abap_bsp, UploadService.buildManifest(plan, result));
+
+                if (result.cancelled) {
+                    const written = result.results.filter(r => r.success).map(r => `${r.action}: ${r.path}`);
+                    vscode.window.showWarningMessage(
+                        `Deployment of "${config.abap_bsp}" cancelled after ${written.length} object(s) were written.`,
+                        { modal: true, detail: written.join('\n') || 'No files were written.' }
                     );
-                    resolve();
-                } catch (error: any) {
-                    vscode.window.showErrorMessage(`Deployment failed: ${error.message}`);
-                    reject(error);
+                    return;
                 }
-            });
+
+                if (result.failed > 0) {
+                    const failedFiles = result.results.filter(r => !r.success).map(r => `${r.path}: ${r.error}`);
+                    throw new Error(`${result.failed} objects failed to upload.\n${failedFiles.join('\n')}`);
+                }
+
+                vscode.window.showInformationMessage(
+                    `Successfully deployed "${config.abap_bsp}" to SAP! (${result.created} new, ${result.updated} modified, ${result.unchanged} unchanged)`
+                );
+            } catch (error: any) {
+                if (error instanceof CancelledError) {
+                    vscode.window.showWarningMessage(`Deployment of "${config.abap_bsp}" cancelled. No files were written.`);
+                    return;
+                }
+                vscode.window.showErrorMessage(`Deployment failed: ${error.message}`);
+            }
         }
     );
 }
@@ -1,13 +1,27 @@
 import * as vscode from 'vscode';
-import { ProfileExplorerProvider } from './views/BspExplorer';
+import { LandscapeTierTreeItem, LandscapeTreeItem, PROTECTION_DISPLAY, ProfileExplorerProvider } from './views/BspExplorer';
 import { BspWebviewProvider } from './views/BspWebviewProvider';
 import { ProfileFormPanel } from './views/ProfileFormPanel';
 import { DeployFormPanel } from './views/DeployFormPanel';
+import { SystemComparePanel } from './views/SystemComparePanel';
+import { BspFileSystemProvider } from './views/BspFileSystemProvider';
+import { BspCompareProvider } from './views/BspCompareProvider';
 import { DeployService } from './services/DeployService';
 import { ConfigService } from './services/ConfigService';
+import { ConnectionManager } from './services/ConnectionManager';
+import { LogService } from './services/LogService';
+import { CancelledError } from './services/SapConnection';
 import { uploadBspCommand } from './commands/uploadBsp';
+import { deployDryRunCommand } from './commands/deployDryRun';
+import { compareWithRemoteCommand } from './commands/compareWithRemote';
+import { exportTraceCommand } from './commands/exportTrace';
+import { importProfilesCommand } from './commands/importProfiles';
+import { exportProfilesCommand, importProfilesFromFileCommand } from './commands/profileSets';
+import { deleteLandscapeCommand, editLandscapeCommand, promoteCommand } from './commands/landscapes';
+import { describeProfileDeletion } from './commands/confirmProtected';
 
 let statusBarItem: vscode.StatusBarItem;
+let connectionManager: ConnectionManager | undefined;
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('BSP Manager extension is now active!');
@@ -15,16 +29,24 @@ export function activate(context: vscode.ExtensionContext) {
     // Initialize SHARED config service
     const configService = new ConfigService(context);
 
+    // One shared SAP session per profile
+    const connections = new ConnectionManager(configService);
+    connectionManager = connections;
+
     // Initialize BSP Webview provider (with inline search)
     const bspWebviewProvider = new BspWebviewProvider(
         context.extensionUri,
         context,
-        configService
+        configService,
+        connections
     );
 
     // Initialize Profile tree view provider
     const profileExplorerProvider = new ProfileExplorerProvider(context, configService);
 
+    // Remote BSP content as bsp://<profile>/<APP>/path
+    const bspFileSystemProvider = new BspFileSystemProvider(configService, connections, new DeployService(configService, connections));
+
     // Update status bar based on CURRENTLY LOADED profile (not default)
     const updateStatusBar = () => {
         const currentProfileName = bspWebviewProvider.getCurrentProfile();
@@ -32,8 +54,13 @@ export function activate(context: vscode.ExtensionContext) {
         if (currentProfileName) {
             const profile = configService.getProfile(currentProfileName);
             if (profile) {
-                statusBarItem.text = `$(server) ${profile.name}`;
-                statusBarItem.tooltip = `Active SAP Profile: ${profile.name}\n${profile.server} (Client: ${profile.client})`;
+                // Protected and read-only systems stand out in the status bar
+                const protection = profile.protection || 'open';
+                const display = PROTECTION_DISPLAY[protection];
+                statusBarItem.text = `${protection === 'readOnly' ? '$(lock)' : '$(server)'} ${profile.name}`;
+                statusBarItem.tooltip = `Active SAP Profile: ${profile.name}\n${profile.server} (Client: ${profile.client})`
+                    + (protection !== 'open' ? `\nProtection: ${display.label}` : '');
+                statusBarItem.backgroundColor = display.statusBarColor ? new vscode.ThemeColor(display.statusBarColor) : undefined;
                 statusBarItem.show();
             } else {
                 statusBarItem.hide();
@@ -46,17 +73,52 @@ export function activate(context: vscode.ExtensionContext) {
     // Function to refresh all views
     const refreshAll = () => {
         configService.reload();
+        bspFileSystemProvider.reset();
         // Don't auto-load webview. User must explicitly "Load BSP Applications".
         profileExplorerProvider.refresh();
         updateStatusBar();
     };
 
+    // Workspace profiles follow .vscode/bsp-manager.json of the open folders
+    const refreshWorkspaceProfiles = () => {
+        const workspaceProfiles = () => configService.getProfiles()
+            .filter(p => configService.getProfileSource(p.name)?.kind === 'workspace')
+            .map(p => p.name);
+        // Sessions of changed or removed workspace profiles must not be reused
+        const before = workspaceProfiles();
+        refreshAll();
+        new Set([...before, ...workspaceProfiles()]).forEach(name => connections.close(name));
+    };
+    const workspaceConfigWatcher = vscode.workspace.createFileSystemWatcher('**/.vscode/bsp-manager.json');
+    workspaceConfigWatcher.onDidCreate(refreshWorkspaceProfiles);
+    workspaceConfigWatcher.onDidChange(refreshWorkspaceProfiles);
+    workspaceConfigWatcher.onDidDelete(refreshWorkspaceProfiles);
+    context.subscriptions.push(
+        workspaceConfigWatcher,
+        vscode.workspace.onDidChangeWorkspaceFolders(refreshWorkspaceProfiles),
+        // Workspace profiles are only loaded once the folder is trusted
+        vscode.workspace.onDidGrantWorkspaceTrust(refreshWorkspaceProfiles)
+    );
+
     // Register webview provider for BSP Explorer
     const bspWebviewDisposable = vscode.window.registerWebviewViewProvider(
         BspWebviewProvider.viewType,
         bspWebviewProvider
     );
 
+    // Register file system for remote BSP content
+    const bspFileSystemDisposable = vscode.workspace.registerFileSystemProvider(
+        BspFileSystemProvider.scheme,
+        bspFileSystemProvider,
+        { isCaseSensitive: true }
+    );
+
+    // Register tree view for local/remote comparisons
+    const bspCompareProvider = new BspCompareProvider();
+    const bspCompareView = vscode.window.createTreeView('bspCompare', {
+        treeDataProvider: bspCompareProvider
+    });
+
     // Register tree view for profiles
     const profileExplorerView = vscode.window.createTreeView('bspProfiles', {
         treeDataProvider: profileExplorerProvider
@@ -78,6 +140,15 @@ export function activate(context: vscode.ExtensionContext) {
     addProfileStatusBar.show();
     context.subscriptions.push(addProfileStatusBar);
 
+    // Strip plaintext passwords left in .nwabaprc files by older versions
+    configService.migrateNwabaprcFiles().then(count => {
+        if (count > 0) {
+            vscode.window.showInformationMessage(
+                `Removed plaintext passwords from ${count} .nwabaprc file(s). Deployments now use the passwords stored securely in your SAP profiles.`
+            );
+        }
+    }, error => LogService.error('Failed to migrate .nwabaprc files', error));
+
     // Register commands
     const commands = [
         // List BSP applications (opens webview if closed)
@@ -94,7 +165,22 @@ export function activate(context: vscode.ExtensionContext) {
             }
 
             // Show quick pick with BSP applications
-            const applications = await bspService.listBspApplications();
+            let applications;
+            try {
+                applications = await vscode.window.withProgress(
+                    {
+                        location: vscode.ProgressLocation.Notification,
+                        title: 'Loading BSP applications...',
+                        cancellable: true
+                    },
+                    (_progress, token) => bspService.listBspApplications(undefined, token)
+                );
+            } catch (error) {
+                if (!(error instanceof CancelledError)) {
+                    vscode.window.showErrorMessage(`${error}`);
+                }
+                return;
+            }
             
             const selected = await vscode.window.showQuickPick(
                 applications.map(app => ({
@@ -157,11 +243,19 @@ export function activate(context: vscode.ExtensionContext) {
                 {
                     location: vscode.ProgressLocation.Notification,
                     title: `Downloading BSP: ${appName}`,
-                    cancellable: false
+                    cancellable: true
                 },
-                async (progress) => {
+                async (progress, token) => {
                     try {
-                        await bspService.downloadBspApplication(appName, targetDirectory, progress);
+                        const result = await bspService.downloadBspApplication(appName, targetDirectory, progress, token);
+
+                        if (result.cancelled) {
+                            vscode.window.showWarningMessage(
+                                `Download of "${appName}" cancelled after ${result.files.length} file(s) were written to ${path.join(targetDirectory, appName)}.`,
+                                { modal: true, detail: result.files.join('\n') || 'No files were written.' }
+                            );
+                            return;
+                        }
 
                         // Get BSP details for .nwabaprc
                         const details = await bspService.getBspDetails(appName);
@@ -184,8 +278,15 @@ export function activate(context: vscode.ExtensionContext) {
                             );
                         }
 
+                        if (result.failed.length > 0) {
+                            vscode.window.showWarningMessage(
+                                `${result.failed.length} object(s) of "${appName}" could not be downloaded.`,
+                                { modal: true, detail: result.failed.map(f => `${f.path}: ${f.error}`).join('\n') }
+                            );
+                        }
+
                         vscode.window.showInformationMessage(
-                            `Successfully downloaded "${appName}" to ${targetDirectory}`,
+                            `Downloaded "${appName}" to ${targetDirectory} (${result.files.length} files)`,
                             'Open Folder'
                         ).then(selection => {
                             if (selection === 'Open Folder') {
@@ -201,16 +302,54 @@ export function activate(context: vscode.ExtensionContext) {
             );
         }),
 
+        // Browse BSP on the server (adds bsp://<profile>/<APP> as workspace folder)
+        vscode.commands.registerCommand('bspManager.browseBsp', async (appName?: string) => {
+            const bspService = bspWebviewProvider.getBspService();
+            const currentProfile = bspWebviewProvider.getCurrentProfile();
+
+            if (!bspService || !currentProfile) {
+                vscode.window.showErrorMessage('Please connect to a SAP profile first.');
+                return;
+            }
+
+            if (!appName) {
+                const applications = await bspService.listBspApplications();
+                const selected = await vscode.window.showQuickPick(
+                    applications.map(app => ({
+                        label: app.name,
+                        description: app.description,
+                        detail: `Package: ${app.package}`
+                    })),
+                    {
+                        placeHolder: 'Select a BSP application to browse',
+                        matchOnDescription: true,
+                        matchOnDetail: true
+                    }
+                );
+                if (!selected) {
+                    return;
+                }
+                appName = selected.label;
+            }
+
+            const uri = BspFileSystemProvider.uriFor(currentProfile, appName);
+            const folders = vscode.workspace.workspaceFolders || [];
+            if (!folders.some(f => f.uri.toString() === uri.toString())) {
+                vscode.workspace.updateWorkspaceFolders(folders.length, 0, { uri, name: `${appName} (${currentProfile})` });
+            }
+            vscode.commands.executeCommand('workbench.view.explorer');
+        }),
+
         // Upload BSP application (Deploy)
         vscode.commands.registerCommand('bspManager.uploadBsp', async () => {
              // Decoupled from active BspService to allow Wizard to handle connection
-             const deployService = new DeployService(configService);
+             const deployService = new DeployService(configService, connections);
              DeployFormPanel.createOrShow(context.extensionUri, configService, deployService);
         }),
 
         // Deploy from Context Menu (File/Folder)
         vscode.commands.registerCommand('bspManager.deployFromContext', async (uri: vscode.Uri) => {
-             const deployService = new DeployService(configService);
+             const deployService = new DeployService(configService, connections);
              
              // If triggered from command palette, uri might be undefined
              // If from context menu, it's the file/folder uri
@@ -231,6 +370,38 @@ export function activate(context: vscode.ExtensionContext) {
              }
         }),
 
+        // Deploy preview (dry run, nothing is written)
+        vscode.commands.registerCommand('bspManager.deployDryRun', async (uri?: vscode.Uri) => {
+             const deployService = new DeployService(configService, connections);
+             await deployDryRunCommand(configService, deployService, uri);
+        }),
+
+        // Compare local project or file with the deployed version
+        vscode.commands.registerCommand('bspManager.compareWithRemote', async (uri?: vscode.Uri) => {
+             const deployService = new DeployService(configService, connections);
+             await compareWithRemoteCommand(configService, deployService, bspCompareProvider, uri);
+        }),
+
+        // Compare one BSP application across systems (DEV/QAS/PRD)
+        vscode.commands.registerCommand('bspManager.compareSystems', (appName?: string) => {
+             SystemComparePanel.createOrShow(configService, connections, typeof appName === 'string' ? appName : undefined);
+        }),
+
+        // Clear comparison results
+        vscode.commands.registerCommand('bspManager.clearComparison', () => {
+             bspCompareProvider.setComparison(undefined);
+        }),
+
+        // Show the "BSP Manager" output channel
+        vscode.commands.registerCommand('bspManager.showLog', () => {
+             LogService.show();
+        }),
+
+        // Export the recorded SAP requests (redacted) as HAR
+        vscode.commands.registerCommand('bspManager.exportTrace', async () => {
+             await exportTraceCommand(context.extension.packageJSON.version);
+        }),
+
         // Configure connection (opens profile form)
         vscode.commands.registerCommand('bspManager.configure', () => {
             ProfileFormPanel.createOrShow(context.extensionUri, configService, undefined, () => {
@@ -257,10 +428,58 @@ export function activate(context: vscode.ExtensionContext) {
             });
         }),
 
+        // Import profiles from SAPUILandscape.xml or CSV
+        vscode.commands.registerCommand('bspManager.importProfiles', async () => {
+            await importProfilesCommand(configService, refreshAll);
+        }),
+
+        // Share profiles with the team (without passwords)
+        vscode.commands.registerCommand('bspManager.exportProfiles', async () => {
+            await exportProfilesCommand(configService);
+        }),
+
+        vscode.commands.registerCommand('bspManager.importProfileFile', async () => {
+            await importProfilesFromFileCommand(configService, (names) => {
+                // Overwritten profiles may point to another server now
+                names.forEach(name => connections.close(name));
+                refreshAll();
+            });
+        }),
+
+        // Landscapes: tiers of profiles with promotion from one tier to the next
+        vscode.commands.registerCommand('bspManager.createLandscape', async () => {
+            await editLandscapeCommand(configService, refreshAll);
+        }),
+
+        vscode.commands.registerCommand('bspManager.editLandscape', async (item?: LandscapeTreeItem) => {
+            if (item) {
+                await editLandscapeCommand(configService, refreshAll, item.landscape.name);
+            }
+        }),
+
+        vscode.commands.registerCommand('bspManager.deleteLandscape', async (item?: LandscapeTreeItem) => {
+            if (item) {
+                await deleteLandscapeCommand(configService, item.landscape.name, refreshAll);
+            }
+        }),
+
+        vscode.commands.registerCommand('bspManager.promote', async (item?: LandscapeTierTreeItem) => {
+            const deployService = new DeployService(configService, connections);
+            if (item instanceof LandscapeTierTreeItem) {
+                await promoteCommand(configService, deployService, item.parent.landscape.name, item.tierIndex);
+            } else {
+                await promoteCommand(configService, deployService);
+            }
+        }),
+
         // Edit profile
         vscode.commands.registerCommand('bspManager.editProfile', (arg?: any) => {
             const profileName = getProfileName(arg);
             ProfileFormPanel.createOrShow(context.extensionUri, configService, profileName, () => {
+                // Changed credentials or server: log on again on next use
+                if (profileName) {
+                    connections.close(profileName);
+                }
                 refreshAll();
             });
         }),
@@ -354,9 +573,21 @@ export function activate(context: vscode.ExtensionContext) {
              vscode.window.showInformationMessage('Default profile cleared.');
         }),
 
-        // Filter BSP applications (now just focuses webview)
-        vscode.commands.registerCommand('bspManager.filterBsp', () => {
+        // Filter BSP applications (searches on the server with bspManager.serverSearch)
+        vscode.commands.registerCommand('bspManager.filterBsp', async () => {
             vscode.commands.executeCommand('bspExplorer.focus');
+            if (!bspWebviewProvider.getBspService()) {
+                return;
+            }
+
+            const term = await vscode.window.showInputBox({
+                prompt: 'Search BSP applications',
+                placeHolder: 'Name, e.g. SALES',
+                value: bspWebviewProvider.getSearchTerm()
+            });
+            if (term !== undefined) {
+                await bspWebviewProvider.search(term.trim());
+            }
         }),
 
         // Delete profile
@@ -384,11 +615,12 @@ export function activate(context: vscode.ExtensionContext) {
 
             const confirm = await vscode.window.showWarningMessage(
                 `Are you sure you want to delete profile "${targetProfile}"?`,
-                { modal: true },
+                { modal: true, detail: describeProfileDeletion(configService, targetProfile) },
                 'Delete'
             );
 
             if (confirm === 'Delete') {
+                await connections.close(targetProfile);
                 await configService.deleteProfile(targetProfile);
                 
                 // If deleted was current view, clear view?
@@ -405,8 +637,11 @@ export function activate(context: vscode.ExtensionContext) {
     // Add all disposables to subscriptions
     context.subscriptions.push(
         bspWebviewDisposable,
+        bspFileSystemDisposable,
+        bspCompareView,
         profileExplorerView,
         statusBarItem,
+        { dispose: () => LogService.dispose() },
         ...commands
     );
 }
@@ -423,8 +658,10 @@ function getProfileName(arg: any): string | undefined {
     return undefined;
 }
 
-export function deactivate() {
+export function deactivate(): Thenable<void> | undefined {
     if (statusBarItem) {
         statusBarItem.dispose();
     }
+    // Log off all open SAP sessions
+    return connectionManager?.closeAll();
 }
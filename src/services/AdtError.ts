@@ -0,0 +1,260 @@
+import { AxiosResponse } from 'axios';
+import { XMLParser } from 'fast-xml-parser';
+
+/**
+ * Common failure cases that come with guidance for the user
+ */
+export type AdtErrorKind =
+    | 'locked'
+    | 'packageNotFound'
+    | 'notAuthorized'
+    | 'unauthenticated'
+    | 'csrf'
+    | 'notFound'
+    | 'network'
+    | 'certificate'
+    | 'other';
+
+/** Message class, number and variables of the ABAP message (T100) */
+export interface T100Message {
+    id: string;
+    number: string;
+    variables: string[];
+}
+
+/**
+ * Parsed `exc:exception` body of an ADT error response
+ */
+export interface AdtException {
+    namespace?: string;
+    type?: string;
+    message?: string;
+    localizedMessage?: string;
+    t100?: T100Message;
+    properties: Record<string, string>;
+}
+
+const STATUS_TITLES: Record<number, string> = {
+    400: 'Bad request',
+    401: 'Authentication failed',
+    403: 'Access forbidden',
+    404: 'Resource not found',
+    409: 'Conflict',
+    500: 'Server error'
+};
+
+// Node error codes of TLS verification failures
+const CERTIFICATE_CODES = [
+    'SELF_SIGNED_CERT_IN_CHAIN',
+    'DEPTH_ZERO_SELF_SIGNED_CERT',
+    'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+    'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+    'CERT_HAS_EXPIRED',
+    'ERR_TLS_CERT_ALTNAME_INVALID'
+];
+
+/**
+ * Failed ADT request. Keeps the HTTP status, the parsed ADT exception
+ * (type, T100 message) and the response. The message already contains the
+ * guidance for the common cases, so callers can show `error.message` as is.
+ */
+export class AdtError extends Error {
+    readonly status: number;
+    readonly kind: AdtErrorKind;
+    /** Short description without guidance */
+    readonly summary: string;
+    readonly guidance?: string;
+    readonly exception?: AdtException;
+    /** Kept for callers that check `error.response.status` */
+    readonly response?: AxiosResponse;
+
+    constructor(
+        summary: string,
+        options: { status?: number; kind?: AdtErrorKind; guidance?: string; exception?: AdtException; response?: AxiosResponse } = {}
+    ) {
+        super(options.guidance ? `${summary}. ${options.guidance}` : summary);
+        this.name = 'AdtError';
+        this.summary = summary;
+        this.status = options.status ?? 0;
+        this.kind = options.kind ?? 'other';
+        this.guidance = options.guidance;
+        this.exception = options.exception;
+        this.response = options.response;
+    }
+
+    get t100(): T100Message | undefined {
+        return this.exception?.t100;
+    }
+
+    /**
+     * Error for a failed response. `csrfFailure` marks a CSRF token that was
+     * still rejected after the session was renewed.
+     */
+    static fromResponse(response: AxiosResponse, csrfFailure: boolean = false): AdtError {
+        const status = response.status;
+        const text = AdtError.bodyText(response.data);
+        const exception = AdtError.parseException(text);
+        const cause = exception
+            ? exception.localizedMessage || exception.message || exception.type
+            : AdtError.plainText(text);
+
+        const kind = csrfFailure ? 'csrf' : AdtError.classify(status, exception, cause || '');
+        const title = kind === 'csrf'
+            ? 'CSRF token validation failed even with a new session'
+            : STATUS_TITLES[status] || 'Request failed';
+
+        return new AdtError(`${title} (${status})${cause ? `: ${cause}` : ''}`, {
+            status,
+            kind,
+            guidance: AdtError.guidanceFor(kind, exception, cause || '', !!exception),
+            exception,
+            response
+        });
+    }
+
+    /**
+     * Error for a request without response: server not reachable or TLS failure
+     */
+    static fromNetworkError(error: { code?: string; message: string }, server: string): AdtError {
+        if (error.code && CERTIFICATE_CODES.includes(error.code)) {
+            return new AdtError(`Certificate of ${server} not accepted (${error.code})`, {
+                kind: 'certificate',
+                guidance: 'Trust the certificate authority of the server, or turn off "Strict SSL" in the profile for systems with self-signed certificates.'
+            });
+        }
+        return new AdtError(`Could not reach ${server}: ${error.code || error.message}`, {
+            kind: 'network',
+            guidance: 'Check the server URL and port of the profile, the VPN connection and the proxy settings.'
+        });
+    }
+
+    /**
+     * Parse an `exc:exception` document, undefined for other bodies
+     */
+    static parseException(text: string): AdtException | undefined {
+        if (!/<(\w+:)?exception[\s>]/.test(text)) {
+            return undefined;
+        }
+
+        let root: any;
+        try {
+            const parser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '@_', removeNSPrefix: true });
+            root = parser.parse(text)?.exception;
+        } catch (error) {
+            return undefined;
+        }
+        if (!root) {
+            return undefined;
+        }
+
+        const properties: Record<string, string> = {};
+        const entries = root.properties?.entry;
+        for (const entry of Array.isArray(entries) ? entries : entries ? [entries] : []) {
+            if (entry?.['@_key']) {
+                properties[entry['@_key']] = AdtError.textOf(entry) || '';
+            }
+        }
+
+        const t100Id = properties['T100KEY-ID'];
+        return {
+            namespace: root.namespace?.['@_id'],
+            type: root.type?.['@_id'],
+            message: AdtError.textOf(root.message),
+            localizedMessage: AdtError.textOf(root.localizedMessage),
+            t100: t100Id
+                ? {
+                    id: t100Id,
+                    number: properties['T100KEY-NO'] || '',
+                    // Positional: &1 to &4 of the message, empty when not set
+                    variables: ['V1', 'V2', 'V3', 'V4'].map(v => properties[`T100KEY-${v}`] || '')
+                }
+                : undefined,
+            properties
+        };
+    }
+
+    // ===== Private Helper Methods =====
+
+    private static classify(status: number, exception: AdtException | undefined, cause: string): AdtErrorKind {
+        const type = exception?.type || '';
+        const t100 = exception?.t100;
+
+        if (status === 401) {
+            return 'unauthenticated';
+        }
+        if (/lock/i.test(type) || /locked|currently editing|being edited|enqueue/i.test(cause) || (t100?.id === 'EU' && t100.number === '510')) {
+            return 'locked';
+        }
+        if (/package/i.test(cause) && /does not exist|not exist|not found|unknown|doesn't exist/i.test(cause)) {
+            return 'packageNotFound';
+        }
+        if (/S_DEVELOP/i.test(cause) || /no authori[sz]ation|not authori[sz]ed|NotAuthorized|NoAccess/i.test(`${type} ${cause}`)
+            || (status === 403 && !exception)) {
+            return 'notAuthorized';
+        }
+        if (status === 404) {
+            return 'notFound';
+        }
+        return 'other';
+    }
+
+    private static guidanceFor(kind: AdtErrorKind, exception: AdtException | undefined, cause: string, isAdtException: boolean): string | undefined {
+        switch (kind) {
+            case 'locked': {
+                // Only the enqueue message EU 510 carries the lock owner in &1
+                const t100 = exception?.t100;
+                const lockOwner = t100?.id === 'EU' && t100.number === '510' ? t100.variables[0] : undefined;
+                const owner = lockOwner || /user\s+([A-Z0-9_]+)/i.exec(cause)?.[1];
+                return `The object is locked by ${owner ? `user ${owner}` : 'another user'}. `
+                    + 'Ask them to close or release it, or have the lock removed in transaction SM12, then try again.';
+            }
+            case 'packageNotFound':
+                return 'Check the package name. The package must exist in the system before deploying into it; use $TMP for local test objects.';
+            case 'notAuthorized':
+                return 'Your SAP user is missing an authorization, usually S_DEVELOP for BSP applications (object type WAPA) in this package. '
+                    + 'Ask your SAP administrator; transaction SU53 shows the failed check.';
+            case 'unauthenticated':
+                return 'Check user and password of the profile and whether the user is locked.';
+            case 'csrf':
+                return 'A proxy or load balancer between VS Code and SAP may not keep the session; check its sticky session settings.';
+            case 'notFound':
+                // ICF answers unknown services with an HTML page instead of an ADT exception
+                return isAdtException ? undefined : 'Please check if ADT services are activated (SICF node /sap/bc/adt).';
+            default:
+                return undefined;
+        }
+    }
+
+    private static bodyText(data: unknown): string {
+        if (typeof data === 'string') {
+            return data;
+        }
+        if (Buffer.isBuffer(data) || data instanceof ArrayBuffer) {
+            return Buffer.from(data as Buffer).toString('utf8');
+        }
+        if (data && typeof data === 'object') {
+            return JSON.stringify(data);
+        }
+        return '';
+    }
+
+    /**
+     * Text of an HTML or plain error page, shortened
+     */
+    private static plainText(text: string): string | undefined {
+        const plain = text
+            .replace(/<(style|script)[\s\S]*?<\/\1>/gi, ' ')
+            .replace(/<[^>]+>/g, ' ')
+            .replace(/\s+/g, ' ')
+            .trim();
+        return plain ? plain.slice(0, 300) : undefined;
+    }
+
+    private static textOf(node: any): string | undefined {
+        if (node === undefined || node === null) {
+            return undefined;
+        }
+        const text = typeof node === 'object' ? node['#text'] : node;
+        return text === undefined || text === '' ? undefined : String(text).trim();
+    }
+}
@@ -1,8 +1,11 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as crypto from 'crypto';
 import { XMLParser } from 'fast-xml-parser';
-import { SapConnection } from './SapConnection';
+import { AdtError } from './AdtError';
+import { CancelledError, SapConnection } from './SapConnection';
+import { LogService } from './LogService';
 
 export interface BspApplication {
     name: string;
@@ -20,7 +23,38 @@ export interface BspFile {
     mimeType?: string;
 }
 
+export interface BspTreeEntry {
+    path: string;
+    type: 'file' | 'folder';
+}
+
+export interface BspDownloadFailure {
+    /** File or folder path relative to the application root */
+    path: string;
+    error: string;
+}
+
+export interface BspDownloadResult {
+    /** Files written to disk, relative to the application root */
+    files: string[];
+    /** Files and folders that could not be downloaded after all retries */
+    failed: BspDownloadFailure[];
+    /** Total size of the written files */
+    bytes: number;
+    /** True when the download was stopped before all files were written */
+    cancelled: boolean;
+}
+
+export interface BspSearchResult {
+    applications: BspApplication[];
+    /** True when the server has more results than were requested */
+    hasMore: boolean;
+}
+
 export class BspService {
+    /** Listed when a profile has no name patterns of its own */
+    static readonly DEFAULT_NAME_PATTERNS = ['Z*'];
+
     private connection: SapConnection;
     private xmlParser: XMLParser;
 
@@ -35,12 +69,16 @@ export class BspService {
     /**
      * List all BSP applications with optional filtering
      */
-    async listBspApplications(filter?: { name?: string; package?: string }): Promise<BspApplication[]> {
+    async listBspApplications(
+        filter?: { name?: string; package?: string },
+        token?: vscode.CancellationToken
+    ): Promise<BspApplication[]> {
         try {
             const response = await this.connection.get('/sap/bc/adt/filestore/ui5-bsp/objects', {
                 headers: {
                     'Accept': 'application/atom+xml'
-                }
+                },
+                signal: SapConnection.signalFor(token)
             });
 
             const parsed = this.xmlParser.parse(response);
@@ -68,8 +106,9 @@ export class BspService {
                 };
             });
             
-            // Filter only Z applications (or /NAMESPACE/)
-            applications = applications.filter(app => app.name.toUpperCase().startsWith('Z'));
+            // Only applications matching the profile's name patterns (Z*, Y*, /NAMESPACE/*, ...)
+            const patterns = this.connection.getConfig().bspNamePatterns || BspService.DEFAULT_NAME_PATTERNS;
+            applications = applications.filter(app => BspService.matchesNamePatterns(app.name, patterns));
 
             // Apply filters
             if (filter?.name) {
@@ -88,140 +127,243 @@ export class BspService {
 
             return applications.sort((a, b) => a.name.localeCompare(b.name));
         } catch (error) {
-            console.error('Failed to list BSP applications:', error);
-            throw new Error(`Failed to list BSP applications: ${error}`);
+            if (error instanceof CancelledError) {
+                throw error;
+            }
+            LogService.error('Failed to list BSP applications', error);
+            throw new Error(`Failed to list BSP applications: ${error instanceof Error ? error.message : error}`);
         }
     }
 
     /**
-     * Get contents of a path within BSP application
-     * @param appName - BSP application name
-     * @param relativePath - relative path within the app (empty for root)
+     * Read one BSP application directly, independent of the name patterns and
+     * the size of the list. Undefined when it does not exist (404); other
+     * request errors are thrown.
      */
-    async getContents(appName: string, relativePath: string = ''): Promise<BspFile[]> {
+    async getApplication(appName: string, token?: vscode.CancellationToken): Promise<BspApplication | undefined> {
+        let response: any;
         try {
-            // Build URL - SAP expects paths encoded with %2f instead of /
-            let url = `/sap/bc/adt/filestore/ui5-bsp/objects/${appName}`;
-            if (relativePath) {
-                // Encode the path: appName%2frelativePath
-                const encodedPath = `${appName}%2f${relativePath.replace(/\//g, '%2f')}`;
-                url = `/sap/bc/adt/filestore/ui5-bsp/objects/${encodedPath}`;
-            }
-            url += '/content';
-
-            const response = await this.connection.get(url, {
+            response = await this.connection.get(BspService.objectUrl(appName), {
                 headers: {
                     'Accept': 'application/atom+xml'
-                }
+                },
+                signal: SapConnection.signalFor(token)
             });
+        } catch (error) {
+            if (error instanceof AdtError && error.status === 404) {
+                return undefined;
+            }
+            throw error;
+        }
 
-            const parsed = this.xmlParser.parse(response);
-            return this.parseContents(parsed);
+        const parsed = this.xmlParser.parse(response);
+        const entry = parsed.entry || parsed['atom:entry'] || parsed;
+
+        let description = this.getAttr(entry, 'summary') || '';
+        if (typeof description === 'object') {
+            description = description['#text'] || '';
+        }
+
+        return {
+            name: appName,
+            description,
+            package: this.extractPackage(entry),
+            createdBy: this.extractProperty(entry, 'createdBy'),
+            createdAt: this.extractProperty(entry, 'createdAt'),
+            changedBy: this.extractProperty(entry, 'changedBy'),
+            changedAt: this.extractProperty(entry, 'changedAt')
+        };
+    }
+
+    /**
+     * Search BSP applications by name on the server (ADT repository quick search),
+     * limited to the profile's name patterns. The quick search has no offset,
+     * so the next page is loaded by asking for more results.
+     */
+    async searchBspApplications(
+        term: string,
+        maxResults: number,
+        token?: vscode.CancellationToken
+    ): Promise<BspSearchResult> {
+        const patterns = this.connection.getConfig().bspNamePatterns || BspService.DEFAULT_NAME_PATTERNS;
+
+        try {
+            // One query per pattern, one more result than asked for to detect further pages
+            const results = await Promise.all(
+                BspService.buildSearchQueries(term, patterns).map(query => this.quickSearch(query, maxResults + 1, token))
+            );
+
+            const byName = new Map<string, BspApplication>();
+            for (const app of results.flat()) {
+                if (BspService.matchesNamePatterns(app.name, patterns)) {
+                    byName.set(app.name, app);
+                }
+            }
+
+            const applications = Array.from(byName.values()).sort((a, b) => a.name.localeCompare(b.name));
+            return {
+                applications: applications.slice(0, maxResults),
+                hasMore: applications.length > maxResults || results.some(r => r.length > maxResults)
+            };
         } catch (error) {
-            console.error(`Failed to get contents for path "${relativePath}":`, error);
+            if (error instanceof CancelledError) {
+                throw error;
+            }
+            LogService.error('Failed to search BSP applications', error);
+            throw new Error(`Failed to search BSP applications: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    /**
+     * Get contents of a path within BSP application. Errors are logged and
+     * give an empty list, which suits the tree view only; use getFileTree
+     * where a missing listing must not look like an empty folder.
+     * @param appName - BSP application name
+     * @param relativePath - relative path within the app (empty for root)
+     */
+    async getContents(appName: string, relativePath: string = '', token?: vscode.CancellationToken): Promise<BspFile[]> {
+        try {
+            return await this.fetchContents(appName, relativePath, token);
+        } catch (error) {
+            if (error instanceof CancelledError) {
+                throw error;
+            }
+            LogService.error(`Failed to get contents for path "${relativePath}"`, error);
             return [];
         }
     }
 
+    /**
+     * Same as getContents, but request errors are thrown instead of returning an empty list
+     */
+    async fetchContents(appName: string, relativePath: string, token?: vscode.CancellationToken): Promise<BspFile[]> {
+        const url = `${BspService.objectUrl(appName, relativePath)}/content`;
+
+        const response = await this.connection.get(url, {
+            headers: {
+                'Accept': 'application/atom+xml'
+            },
+            signal: SapConnection.signalFor(token)
+        });
+
+        const parsed = this.xmlParser.parse(response);
+        return this.parseContents(parsed);
+    }
+
+    /**
+     * Walk the whole BSP application and return every folder and file
+     * with its path relative to the application root.
+     * Folders of the same level are listed in parallel. A folder that cannot
+     * be listed (after retries) throws, unlike getContents.
+     */
+    async getFileTree(appName: string, token?: vscode.CancellationToken): Promise<BspTreeEntry[]> {
+        return this.walkTree(appName, BspService.getConcurrency(), token, undefined, BspService.getRetries());
+    }
+
+    /**
+     * Content hash (sha1) of every file of the application, keyed by path.
+     * Files are fetched by the same worker pool as downloads.
+     */
+    async getFileHashes(
+        appName: string,
+        token?: vscode.CancellationToken,
+        onFile?: (file: string) => void
+    ): Promise<Record<string, string>> {
+        const concurrency = BspService.getConcurrency();
+        const retries = BspService.getRetries();
+        const tree = await this.walkTree(appName, concurrency, token, undefined, retries);
+        const hashes: Record<string, string> = {};
+
+        await BspService.runPool(tree.filter(e => e.type === 'file'), concurrency, async (entry) => {
+            const content = await BspService.withRetry(() => this.downloadFile(appName, entry.path, token), retries, token);
+            hashes[entry.path] = crypto.createHash('sha1').update(content).digest('hex');
+            onFile?.(entry.path);
+        });
+
+        return hashes;
+    }
+
     /**
      * Download a single file from BSP application
      */
-    async downloadFile(appName: string, relativePath: string): Promise<Buffer> {
-        // Build URL - SAP expects paths encoded with %2f instead of /
-        // Full path: appName%2frelativePath
-        const encodedPath = `${appName}%2f${relativePath.replace(/\//g, '%2f')}`;
-        const url = `/sap/bc/adt/filestore/ui5-bsp/objects/${encodedPath}/content`;
-        
-        const response = await this.connection.getRaw(url);
+    async downloadFile(appName: string, relativePath: string, token?: vscode.CancellationToken): Promise<Buffer> {
+        const url = `${BspService.objectUrl(appName, relativePath)}/content`;
+        const response = await this.connection.getRaw(url, { signal: SapConnection.signalFor(token) });
         return response;
     }
 
     /**
-     * Download entire BSP application to a local directory
+     * Download entire BSP application to a local directory.
+     * Folder listings and files are fetched by a pool of workers
+     * (`bspManager.downloadConcurrency`), each file is retried with backoff
+     * (`bspManager.downloadRetries`) and failures are collected in the result.
+     * When the token is cancelled the workers stop after their current file;
+     * the result lists every file that was written until then.
      */
     async downloadBspApplication(
         appName: string,
         targetDirectory: string,
-        progress: vscode.Progress<{ message?: string; increment?: number }>
-    ): Promise<void> {
+        progress: vscode.Progress<{ message?: string; increment?: number }>,
+        token?: vscode.CancellationToken
+    ): Promise<BspDownloadResult> {
         // Create target directory with app name
         const appDirectory = path.join(targetDirectory, appName);
         if (!fs.existsSync(appDirectory)) {
             fs.mkdirSync(appDirectory, { recursive: true });
         }
 
-        progress.report({ message: 'Getting application structure...' });
-        
-        // Get root contents (files and folders directly in the app)
-        const rootContents = await this.getContents(appName, '');
-        
-        // Download all files recursively
-        const filesDownloaded = await this.downloadRecursively(
-            appName,
-            appDirectory,
-            rootContents,
-            '', // Start with empty relative path
-            progress
-        );
-
-        progress.report({ message: `Downloaded ${filesDownloaded} files` });
-    }
+        const concurrency = BspService.getConcurrency();
+        const retries = BspService.getRetries();
+        const result: BspDownloadResult = { files: [], failed: [], bytes: 0, cancelled: false };
 
-    /**
-     * Recursively download files and folders
-     */
-    private async downloadRecursively(
-        appName: string,
-        localBaseDir: string,
-        items: BspFile[],
-        currentRelativePath: string,
-        progress: vscode.Progress<{ message?: string; increment?: number }>
-    ): Promise<number> {
-        let count = 0;
-
-        for (const item of items) {
-            // Build relative path for API calls
-            const itemRelativePath = currentRelativePath 
-                ? `${currentRelativePath}/${item.name}` 
-                : item.name;
-            
-            // Build local path
-            const localPath = path.join(localBaseDir, item.name);
+        try {
+            progress.report({ message: 'Getting application structure...' });
+            const tree = await this.walkTree(appName, concurrency, token, (folder, error) => {
+                result.failed.push({ path: `${folder}/`, error });
+            }, retries);
 
-            if (item.type === 'folder') {
-                // Create local folder
-                if (!fs.existsSync(localPath)) {
-                    fs.mkdirSync(localPath, { recursive: true });
-                }
+            for (const folder of tree.filter(e => e.type === 'folder')) {
+                fs.mkdirSync(path.join(appDirectory, ...folder.path.split('/')), { recursive: true });
+            }
+
+            const files = tree.filter(e => e.type === 'file').map(e => e.path);
+            let done = 0;
+
+            await BspService.runPool(files, concurrency, async (file) => {
+                SapConnection.throwIfCancelled(token);
 
-                // Get folder contents from SAP
-                progress.report({ message: `Scanning: ${item.name}/` });
-                const folderContents = await this.getContents(appName, itemRelativePath);
-                
-                // Recursively download folder contents
-                const subCount = await this.downloadRecursively(
-                    appName,
-                    localPath,
-                    folderContents,
-                    itemRelativePath,
-                    progress
-                );
-                count += subCount;
-            } else {
-                // Download file
-                progress.report({ message: `Downloading: ${item.name}` });
-                
                 try {
-                    const content = await this.downloadFile(appName, itemRelativePath);
-                    fs.writeFileSync(localPath, content);
-                    count++;
-                } catch (error) {
-                    console.error(`Error downloading ${itemRelativePath}:`, error);
+                    const content = await BspService.withRetry(
+                        () => this.downloadFile(appName, file, token),
+                        retries,
+                        token
+                    );
+                    fs.writeFileSync(path.join(appDirectory, ...file.split('/')), content);
+                    result.files.push(file);
+                    result.bytes += content.length;
+                } catch (error: any) {
+                    if (error instanceof CancelledError) {
+                        throw error;
+                    }
+                    result.failed.push({ path: file, error: String(error.message || error) });
                 }
+
+                done++;
+                progress.report({
+                    message: `${done}/${files.length} files (${BspService.formatBytes(result.bytes)}): ${file}`,
+                    increment: 100 / files.length
+                });
+            });
+        } catch (error) {
+            if (!(error instanceof CancelledError)) {
+                throw error;
             }
+            result.cancelled = true;
         }
 
-        return count;
+        result.files.sort();
+        progress.report({ message: `Downloaded ${result.files.length} files (${BspService.formatBytes(result.bytes)})` });
+        return result;
     }
 
     /**
@@ -230,7 +372,7 @@ export class BspService {
     async getBspDetails(appName: string): Promise<{ package: string; description: string; transport?: string }> {
         try {
             const response = await this.connection.get(
-                `/sap/bc/adt/filestore/ui5-bsp/objects/${appName}`,
+                BspService.objectUrl(appName),
                 {
                     headers: {
                         'Accept': 'application/atom+xml'
@@ -246,7 +388,7 @@ export class BspService {
                 transport: this.extractProperty(parsed, 'transport')
             };
         } catch (error) {
-            console.error('Failed to get BSP details:', error);
+            LogService.error('Failed to get BSP details', error);
             return {
                 package: '$TMP',
                 description: appName
@@ -254,8 +396,197 @@ export class BspService {
         }
     }
 
+    /**
+     * True when the name matches one of the patterns. `*` is a wildcard,
+     * a pattern without wildcard is a prefix and `*` alone matches everything.
+     */
+    static matchesNamePatterns(name: string, patterns: string[]): boolean {
+        const upperName = name.toUpperCase();
+        return patterns.some(pattern => {
+            const upperPattern = pattern.trim().toUpperCase();
+            if (!upperPattern) {
+                return false;
+            }
+            if (!upperPattern.includes('*')) {
+                return upperName.startsWith(upperPattern);
+            }
+            const regex = upperPattern
+                .split('*')
+                .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+                .join('.*');
+            return new RegExp(`^${regex}$`).test(upperName);
+        });
+    }
+
+    /**
+     * Name patterns from user input such as "Z*, Y* /UISAP/*"
+     */
+    static parseNamePatterns(value: string): string[] {
+        return value.split(/[\s,;]+/).map(p => p.trim().toUpperCase()).filter(Boolean);
+    }
+
     // ===== Private Helper Methods =====
 
+    private async quickSearch(query: string, maxResults: number, token?: vscode.CancellationToken): Promise<BspApplication[]> {
+        const response = await this.connection.get('/sap/bc/adt/repository/informationsystem/search', {
+            params: {
+                operation: 'quickSearch',
+                query,
+                maxResults,
+                objectType: 'WAPA'
+            },
+            headers: {
+                'Accept': 'application/xml'
+            },
+            signal: SapConnection.signalFor(token)
+        });
+
+        const parsed = this.xmlParser.parse(response);
+        const root = parsed['adtcore:objectReferences'] || {};
+        const references = root['adtcore:objectReference'] || [];
+
+        return (Array.isArray(references) ? references : [references])
+            .filter((ref: any) => String(ref['@_adtcore:type'] || '').startsWith('WAPA'))
+            .map((ref: any) => ({
+                name: ref['@_adtcore:name'] || '',
+                description: ref['@_adtcore:description'] || '',
+                package: ref['@_adtcore:packageName'] || ''
+            }));
+    }
+
+    /**
+     * Quick search queries for a search term, one per name pattern:
+     * Z* + "sales" becomes Z*SALES*, an empty term searches the pattern itself
+     */
+    private static buildSearchQueries(term: string, patterns: string[]): string[] {
+        const search = term.trim().toUpperCase();
+        const queries = patterns.map(pattern => {
+            const prefix = pattern.trim().toUpperCase().replace(/\*+$/, '');
+            if (!search) {
+                return `${prefix}*`;
+            }
+            return prefix ? `${prefix}*${search}*` : `*${search}*`;
+        });
+        return Array.from(new Set(queries));
+    }
+
+    /**
+     * Filestore URL of an application or a path inside it. The whole path is
+     * one encoded segment, so namespaces become %2FUISAP%2FAPP%2Ffile.js
+     */
+    private static objectUrl(appName: string, relativePath: string = ''): string {
+        const fullPath = relativePath ? `${appName}/${relativePath}` : appName;
+        return `/sap/bc/adt/filestore/ui5-bsp/objects/${encodeURIComponent(fullPath)}`;
+    }
+
+    /**
+     * Lists the application level by level, the folders of one level in parallel.
+     * Without onError the first folder that cannot be listed fails the walk:
+     * deploy planning and compare must not mistake it for an empty folder.
+     */
+    private async walkTree(
+        appName: string,
+        concurrency: number,
+        token?: vscode.CancellationToken,
+        onError?: (folder: string, error: string) => void,
+        retries: number = 0
+    ): Promise<BspTreeEntry[]> {
+        const tree: BspTreeEntry[] = [];
+        let level: string[] = [''];
+
+        while (level.length > 0) {
+            const next: string[] = [];
+
+            await BspService.runPool(level, concurrency, async (folder) => {
+                let items: BspFile[];
+                try {
+                    items = await BspService.withRetry(() => this.fetchContents(appName, folder, token), retries, token);
+                } catch (error: any) {
+                    if (!onError || error instanceof CancelledError) {
+                        throw error;
+                    }
+                    onError(folder, String(error.message || error));
+                    return;
+                }
+
+                for (const item of items) {
+                    const itemPath = folder ? `${folder}/${item.name}` : item.name;
+                    tree.push({ path: itemPath, type: item.type });
+                    if (item.type === 'folder') {
+                        next.push(itemPath);
+                    }
+                }
+            });
+
+            level = next;
+        }
+
+        return tree.sort((a, b) => a.path.localeCompare(b.path));
+    }
+
+    /**
+     * Runs the worker for every item with at most `concurrency` workers at a time.
+     * The first error stops the remaining items and is rethrown.
+     */
+    private static async runPool<T>(items: T[], concurrency: number, worker: (item: T) => Promise<void>): Promise<void> {
+        let index = 0;
+        let failure: unknown;
+
+        const next = async (): Promise<void> => {
+            while (failure === undefined && index < items.length) {
+                const item = items[index++];
+                try {
+                    await worker(item);
+                } catch (error) {
+                    failure = failure ?? error;
+                }
+            }
+        };
+
+        await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, next));
+
+        if (failure !== undefined) {
+            throw failure;
+        }
+    }
+
+    /**
+     * Retries a request with exponential backoff (500 ms, 1 s, 2 s, ...).
+     * Cancellation is never retried.
+     */
+    private static async withRetry<T>(request: () => Promise<T>, retries: number, token?: vscode.CancellationToken): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await request();
+            } catch (error) {
+                if (error instanceof CancelledError || attempt >= retries) {
+                    throw error;
+                }
+                await new Promise(resolve => setTimeout(resolve, 500 * 2 ** attempt));
+                SapConnection.throwIfCancelled(token);
+            }
+        }
+    }
+
+    private static getConcurrency(): number {
+        const concurrency = vscode.workspace.getConfiguration('bspManager').get<number>('downloadConcurrency', 4);
+        return Math.max(1, Math.floor(concurrency));
+    }
+
+    private static getRetries(): number {
+        return Math.max(0, vscode.workspace.getConfiguration('bspManager').get<number>('downloadRetries', 2));
+    }
+
+    private static formatBytes(bytes: number): string {
+        if (bytes < 1024) {
+            return `${bytes} B`;
+        }
+        if (bytes < 1024 * 1024) {
+            return `${(bytes / 1024).toFixed(1)} KB`;
+        }
+        return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    }
+
     private getEntries(parsed: any): any[] {
         const feed = parsed.feed || parsed['atom:feed'] || parsed;
         const entries = feed.entry || feed['atom:entry'] || [];
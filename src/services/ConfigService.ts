@@ -1,27 +1,101 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { SapProfile, SapConnectionConfig } from './SapConnection';
+import * as crypto from 'crypto';
+import { ProfileProtection, SapProfile, SapConnectionConfig } from './SapConnection';
+import { OAuthService, OAuthTokens } from './OAuthService';
+import { LogService } from './LogService';
+import { ProfileSetService } from './ProfileSetService';
 
 const PROFILES_KEY = 'bspManager.profiles';
 const PASSWORDS_KEY = 'bspManager.passwords';
+const PASSPHRASES_KEY = 'bspManager.certificatePassphrases';
+const SERVICE_KEYS_KEY = 'bspManager.serviceKeys';
+const OAUTH_TOKENS_KEY = 'bspManager.oauthTokens';
+const PROXY_PASSWORDS_KEY = 'bspManager.proxyPasswords';
+const MANIFESTS_KEY = 'bspManager.deployManifests';
+const LANDSCAPES_KEY = 'bspManager.landscapes';
+// Users of workspace profiles whose file leaves the user open, by workspace identity and name
+const WORKSPACE_USERS_KEY = 'bspManager.workspaceProfileUsers';
+
+/** Project file with profiles and deploy defaults, relative to a workspace folder */
+export const WORKSPACE_CONFIG_FILE = path.join('.vscode', 'bsp-manager.json');
+
+/**
+ * `.vscode/bsp-manager.json` of a workspace folder, committed with the
+ * project: profiles without secrets and the deploy defaults of the project
+ */
+export interface WorkspaceBspConfig {
+    /** Path of the workspace folder */
+    folder: string;
+    profiles: SapProfile[];
+    bspName?: string;
+    package?: string;
+    /** Profile the project is deployed to unless chosen otherwise */
+    defaultProfile?: string;
+}
+
+/**
+ * Where a profile is defined. A workspace profile never replaces a global
+ * profile with the same name, it is ignored instead.
+ */
+export interface ProfileSource {
+    kind: 'global' | 'workspace';
+    /** Workspace folder of a workspace profile */
+    folder?: string;
+}
+
+/**
+ * Stage of a landscape, e.g. QAS. Holds one or more profiles (clients).
+ */
+export interface LandscapeTier {
+    name: string;
+    profiles: string[];
+}
+
+/**
+ * Profiles grouped into ordered tiers, e.g. DEV -> QAS -> PRD.
+ * Applications are promoted from one tier to the next.
+ */
+export interface Landscape {
+    name: string;
+    tiers: LandscapeTier[];
+}
+
+interface WorkspaceProfile {
+    profile: SapProfile;
+    folder: string;
+    /** The file sets the user; otherwise each developer's own user is kept locally */
+    declaresUser: boolean;
+}
 
 export interface NwabapConfig {
     base: string;
+    /** BSP Manager profile whose SecretStorage password is used at deploy time */
+    profile?: string;
     conn_server: string;
     conn_client: string;
     conn_user: string;
-    conn_password: string;
+    /** Legacy plaintext password, never written anymore and removed on migration */
+    conn_password?: string;
     conn_usestrictssl: boolean;
     abap_package: string;
     abap_bsp: string;
     abap_bsp_text: string;
     abap_transport: string;
+    /** Logon language of the deploy, from the profile */
+    abap_language?: string;
 }
 
 export class ConfigService {
     private context: vscode.ExtensionContext;
     private profiles: Map<string, SapProfile> = new Map();
+    private workspaceProfiles: Map<string, WorkspaceProfile> = new Map();
+    private workspaceConfigs: WorkspaceBspConfig[] = [];
+    // Problems with workspace files are shown once, not on every refresh
+    private reportedProblems: Set<string> = new Set();
+    // One OAuth login or refresh at a time per profile
+    private pendingTokens: Map<string, Promise<string>> = new Map();
 
     constructor(context: vscode.ExtensionContext) {
         this.context = context;
@@ -29,11 +103,88 @@ export class ConfigService {
     }
 
     /**
-     * Load profiles from global state
+     * Load profiles from global state and the workspace folders
      */
     private loadProfiles(): void {
         const storedProfiles = this.context.globalState.get<Record<string, SapProfile>>(PROFILES_KEY, {});
         this.profiles = new Map(Object.entries(storedProfiles));
+        this.loadWorkspaceConfigs();
+    }
+
+    private loadWorkspaceConfigs(): void {
+        const users = this.context.globalState.get<Record<string, string>>(WORKSPACE_USERS_KEY, {});
+        this.workspaceConfigs = [];
+        this.workspaceProfiles = new Map();
+
+        // Project files of untrusted folders could point a profile at any server
+        if (!vscode.workspace.isTrusted) {
+            LogService.info('Workspace is not trusted, profiles of .vscode/bsp-manager.json are not loaded.');
+            return;
+        }
+
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            // bsp:// folders have no project files
+            if (folder.uri.scheme !== 'file') {
+                continue;
+            }
+            const config = this.readWorkspaceConfig(folder.uri.fsPath);
+            if (!config) {
+                continue;
+            }
+            this.workspaceConfigs.push(config);
+
+            for (const profile of config.profiles) {
+                if (this.workspaceProfiles.has(profile.name)) {
+                    this.reportProblem(`Profile "${profile.name}" is declared in more than one workspace folder. The first one is used.`);
+                    continue;
+                }
+                if (this.profiles.has(profile.name)) {
+                    this.reportProblem(
+                        `Profile "${profile.name}" of ${path.join(config.folder, WORKSPACE_CONFIG_FILE)} is ignored: a global profile has the same name. Rename one of them to use both.`
+                    );
+                    continue;
+                }
+                this.workspaceProfiles.set(profile.name, {
+                    profile: { ...profile, user: profile.user || users[ConfigService.workspaceKey(config.folder, profile)] || '' },
+                    folder: config.folder,
+                    declaresUser: !!profile.user
+                });
+            }
+        }
+    }
+
+    private readWorkspaceConfig(folder: string): WorkspaceBspConfig | undefined {
+        const file = path.join(folder, WORKSPACE_CONFIG_FILE);
+        if (!fs.existsSync(file)) {
+            return undefined;
+        }
+
+        try {
+            const json = JSON.parse(fs.readFileSync(file, 'utf-8'));
+            const text = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+            return {
+                folder,
+                profiles: ProfileSetService.parseProfiles(
+                    Array.isArray(json.profiles) ? json.profiles : [],
+                    `Invalid profiles in ${file}`,
+                    { userOptional: true }
+                ),
+                bspName: text(json.bspName)?.toUpperCase(),
+                package: text(json.package)?.toUpperCase(),
+                defaultProfile: text(json.defaultProfile)
+            };
+        } catch (error: any) {
+            this.reportProblem(`${file} could not be read: ${error.message || error}`);
+            return undefined;
+        }
+    }
+
+    private reportProblem(message: string): void {
+        LogService.warn(message);
+        if (!this.reportedProblems.has(message)) {
+            this.reportedProblems.add(message);
+            vscode.window.showWarningMessage(message);
+        }
     }
 
     /**
@@ -55,58 +206,261 @@ export class ConfigService {
      * Get all profiles
      */
     getProfiles(): SapProfile[] {
-        return Array.from(this.profiles.values());
+        const merged = new Map(this.profiles);
+        this.workspaceProfiles.forEach(({ profile }, name) => merged.set(name, profile));
+        return Array.from(merged.values());
     }
 
     /**
      * Get a specific profile by name
      */
     getProfile(name: string): SapProfile | undefined {
-        return this.profiles.get(name);
+        return this.workspaceProfiles.get(name)?.profile || this.profiles.get(name);
+    }
+
+    /**
+     * Protection level of a profile, open when not set
+     */
+    getProtection(name: string): ProfileProtection {
+        return this.getProfile(name)?.protection || 'open';
     }
 
     /**
-     * Add or update a profile
+     * Where a profile comes from: global (this VS Code) or a workspace folder
+     */
+    getProfileSource(name: string): ProfileSource | undefined {
+        const workspace = this.workspaceProfiles.get(name);
+        if (workspace) {
+            return { kind: 'workspace', folder: workspace.folder };
+        }
+        return this.profiles.has(name) ? { kind: 'global' } : undefined;
+    }
+
+    /**
+     * The bsp-manager.json of the workspace folder that contains the path,
+     * or the only one in the workspace when no path is given
+     */
+    getWorkspaceConfig(fsPath?: string): WorkspaceBspConfig | undefined {
+        if (fsPath) {
+            const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fsPath));
+            return folder ? this.workspaceConfigs.find(c => c.folder === folder.uri.fsPath) : undefined;
+        }
+        return this.workspaceConfigs.length === 1 ? this.workspaceConfigs[0] : undefined;
+    }
+
+    /**
+     * Default profile for a project: the one of its bsp-manager.json,
+     * else the global default
+     */
+    getProjectDefaultProfile(fsPath?: string): string {
+        const projectDefault = this.getWorkspaceConfig(fsPath)?.defaultProfile;
+        return projectDefault && this.getProfile(projectDefault) ? projectDefault : this.getDefaultProfile();
+    }
+
+    /**
+     * Add or update a profile. Workspace profiles are written back to their
+     * bsp-manager.json (without secrets), all others to global state.
      */
     async saveProfile(profile: SapProfile): Promise<void> {
+        const workspace = this.workspaceProfiles.get(profile.name);
+        if (workspace) {
+            await this.saveWorkspaceProfile(profile, workspace);
+            return;
+        }
         this.profiles.set(profile.name, profile);
         await this.saveProfiles();
     }
 
+    private async saveWorkspaceProfile(profile: SapProfile, workspace: WorkspaceProfile): Promise<void> {
+        if (ConfigService.workspaceKey(workspace.folder, profile) !== ConfigService.workspaceKey(workspace.folder, workspace.profile)) {
+            // Secrets of the old system are of no use for the new one
+            await this.deleteSecrets(profile.name);
+        }
+        const entry = ProfileSetService.sanitize(profile);
+        if (!workspace.declaresUser) {
+            // The user stays on this machine, the file is shared with the team
+            const users = this.context.globalState.get<Record<string, string>>(WORKSPACE_USERS_KEY, {});
+            await this.context.globalState.update(WORKSPACE_USERS_KEY, {
+                ...users,
+                [ConfigService.workspaceKey(workspace.folder, profile)]: entry.user
+            });
+            delete (entry as Partial<SapProfile>).user;
+        }
+
+        this.updateWorkspaceFile(workspace.folder, profiles => profiles.map(p => p.name === profile.name ? entry : p));
+        workspace.profile = { ...profile };
+    }
+
     /**
-     * Delete a profile
+     * Rewrite the profiles of a bsp-manager.json, keeping its other settings
+     */
+    private updateWorkspaceFile(folder: string, update: (profiles: any[]) => any[]): void {
+        const file = path.join(folder, WORKSPACE_CONFIG_FILE);
+        const json = JSON.parse(fs.readFileSync(file, 'utf-8'));
+        json.profiles = update(Array.isArray(json.profiles) ? json.profiles : []);
+        fs.writeFileSync(file, JSON.stringify(json, null, 2) + '\n', 'utf-8');
+    }
+
+    /**
+     * Delete a profile from where it is defined: a workspace profile from its
+     * bsp-manager.json, a global profile from global state. Only the secrets
+     * of that profile are removed.
      */
     async deleteProfile(name: string): Promise<void> {
+        await this.deleteSecrets(name);
+        await this.removeFromLandscapes(name);
+
+        const workspace = this.workspaceProfiles.get(name);
+        if (workspace) {
+            this.updateWorkspaceFile(workspace.folder, profiles => profiles.filter(p => p?.name !== name));
+            this.workspaceProfiles.delete(name);
+            return;
+        }
         this.profiles.delete(name);
-        await this.context.secrets.delete(`${PASSWORDS_KEY}.${name}`);
         await this.saveProfiles();
     }
 
+    /**
+     * Remove every stored secret of a profile: password, passphrase,
+     * service key, OAuth tokens and proxy password
+     */
+    async deleteSecrets(profileName: string): Promise<void> {
+        for (const store of [PASSWORDS_KEY, PASSPHRASES_KEY, SERVICE_KEYS_KEY, OAUTH_TOKENS_KEY, PROXY_PASSWORDS_KEY]) {
+            await this.context.secrets.delete(this.secretKey(store, profileName));
+        }
+    }
+
+    /**
+     * SecretStorage key of a profile. Workspace profiles have keys of their
+     * own, bound to the declaring folder and the system: a project file never
+     * picks up the secrets of a global profile or of another project's
+     * profile with the same name, and a changed server or client starts
+     * without secrets.
+     */
+    private secretKey(store: string, profileName: string): string {
+        const workspace = this.workspaceProfiles.get(profileName);
+        return workspace
+            ? `${store}.workspace:${ConfigService.workspaceKey(workspace.folder, workspace.profile)}`
+            : `${store}.${profileName}`;
+    }
+
+    /**
+     * Name of a workspace profile qualified by a fingerprint of its folder,
+     * server and client
+     */
+    private static workspaceKey(folder: string, profile: SapProfile): string {
+        const fingerprint = crypto.createHash('sha1')
+            .update([folder, profile.server, profile.client || ''].join('|'))
+            .digest('hex')
+            .substring(0, 12);
+        return `${fingerprint}:${profile.name}`;
+    }
+
     /**
      * Store password securely
      */
     async storePassword(profileName: string, password: string): Promise<void> {
-        await this.context.secrets.store(`${PASSWORDS_KEY}.${profileName}`, password);
+        await this.context.secrets.store(this.secretKey(PASSWORDS_KEY, profileName), password);
     }
 
     /**
      * Get password securely
      */
     async getPassword(profileName: string): Promise<string | undefined> {
-        return await this.context.secrets.get(`${PASSWORDS_KEY}.${profileName}`);
+        return await this.context.secrets.get(this.secretKey(PASSWORDS_KEY, profileName));
+    }
+
+    /**
+     * Store the passphrase of a profile's client certificate securely
+     */
+    async storePassphrase(profileName: string, passphrase: string): Promise<void> {
+        await this.context.secrets.store(this.secretKey(PASSPHRASES_KEY, profileName), passphrase);
     }
 
     /**
-     * Get full connection config with password
+     * Get the passphrase of a profile's client certificate
+     */
+    async getPassphrase(profileName: string): Promise<string | undefined> {
+        return await this.context.secrets.get(this.secretKey(PASSPHRASES_KEY, profileName));
+    }
+
+    /**
+     * Store the BTP service key of an OAuth profile securely.
+     * Cached tokens of the previous key are dropped.
+     */
+    async storeServiceKey(profileName: string, serviceKey: string): Promise<void> {
+        await this.context.secrets.store(this.secretKey(SERVICE_KEYS_KEY, profileName), serviceKey);
+        await this.context.secrets.delete(this.secretKey(OAUTH_TOKENS_KEY, profileName));
+    }
+
+    /**
+     * Get the BTP service key (JSON) of an OAuth profile
+     */
+    async getServiceKey(profileName: string): Promise<string | undefined> {
+        return await this.context.secrets.get(this.secretKey(SERVICE_KEYS_KEY, profileName));
+    }
+
+    /**
+     * Cache the OAuth tokens of a profile
+     */
+    async storeOAuthTokens(profileName: string, tokens: OAuthTokens): Promise<void> {
+        await this.context.secrets.store(this.secretKey(OAUTH_TOKENS_KEY, profileName), JSON.stringify(tokens));
+    }
+
+    /**
+     * Get the cached OAuth tokens of a profile
+     */
+    async getOAuthTokens(profileName: string): Promise<OAuthTokens | undefined> {
+        const stored = await this.context.secrets.get(this.secretKey(OAUTH_TOKENS_KEY, profileName));
+        return stored ? JSON.parse(stored) : undefined;
+    }
+
+    /**
+     * Store the password of a profile's proxy user securely
+     */
+    async storeProxyPassword(profileName: string, password: string): Promise<void> {
+        await this.context.secrets.store(this.secretKey(PROXY_PASSWORDS_KEY, profileName), password);
+    }
+
+    /**
+     * Get the password of a profile's proxy user
+     */
+    async getProxyPassword(profileName: string): Promise<string | undefined> {
+        return await this.context.secrets.get(this.secretKey(PROXY_PASSWORDS_KEY, profileName));
+    }
+
+    /**
+     * Get full connection config with password, with the certificate
+     * passphrase for certificate profiles, or with a bearer token for
+     * OAuth profiles (which may open the browser to sign in)
      */
     async getConnectionConfig(profileName: string): Promise<SapConnectionConfig | undefined> {
-        const profile = this.getProfile(profileName);
-        if (!profile) {
+        const stored = this.getProfile(profileName);
+        if (!stored) {
             return undefined;
         }
 
+        const profile = stored.proxyUser
+            ? { ...stored, proxyPassword: await this.getProxyPassword(profileName) }
+            : stored;
+
+        if (profile.authType === 'oauth') {
+            return {
+                ...profile,
+                accessToken: await this.requestAccessToken(profile, false)
+            };
+        }
+
+        if (profile.authType === 'certificate') {
+            return {
+                ...profile,
+                passphrase: await this.getPassphrase(profileName)
+            };
+        }
+
+        // Workspace profiles may still miss the user of this developer
         const password = await this.getPassword(profileName);
-        if (!password) {
+        if (!password || !profile.user) {
             return undefined;
         }
 
@@ -116,6 +470,31 @@ export class ConfigService {
         };
     }
 
+    /**
+     * New OAuth access token for a profile whose current token the server
+     * rejected: refreshed, or from a new sign-in if the refresh token is gone
+     */
+    async renewAccessToken(profileName: string): Promise<string> {
+        const stored = this.getProfile(profileName);
+        if (!stored) {
+            throw new Error(`Profile "${profileName}" not found`);
+        }
+        const profile = stored.proxyUser
+            ? { ...stored, proxyPassword: await this.getProxyPassword(profileName) }
+            : stored;
+        return this.requestAccessToken(profile, true);
+    }
+
+    private requestAccessToken(profile: SapConnectionConfig, renew: boolean): Promise<string> {
+        let pending = this.pendingTokens.get(profile.name);
+        if (!pending) {
+            pending = new OAuthService(this).getAccessToken(profile, undefined, renew)
+                .finally(() => this.pendingTokens.delete(profile.name));
+            this.pendingTokens.set(profile.name, pending);
+        }
+        return pending;
+    }
+
     /**
      * Get default profile name
      */
@@ -130,6 +509,86 @@ export class ConfigService {
         await vscode.workspace.getConfiguration('bspManager').update('defaultProfile', profileName, true);
     }
 
+    /**
+     * Get all landscapes, tiers in promotion order
+     */
+    getLandscapes(): Landscape[] {
+        return this.context.globalState.get<Landscape[]>(LANDSCAPES_KEY, []);
+    }
+
+    getLandscape(name: string): Landscape | undefined {
+        return this.getLandscapes().find(l => l.name === name);
+    }
+
+    /**
+     * Add or replace a landscape. `previousName` renames an existing one.
+     */
+    async saveLandscape(landscape: Landscape, previousName?: string): Promise<void> {
+        const replaced = previousName ?? landscape.name;
+        const landscapes = this.getLandscapes();
+        const index = landscapes.findIndex(l => l.name === replaced);
+        if (index >= 0) {
+            landscapes[index] = landscape;
+        } else {
+            landscapes.push(landscape);
+        }
+        await this.context.globalState.update(LANDSCAPES_KEY, landscapes);
+    }
+
+    async deleteLandscape(name: string): Promise<void> {
+        await this.context.globalState.update(LANDSCAPES_KEY, this.getLandscapes().filter(l => l.name !== name));
+    }
+
+    /**
+     * Landscape and tier a profile belongs to. A profile is in at most one tier.
+     */
+    findLandscapeTier(profileName: string): { landscape: Landscape; tierIndex: number } | undefined {
+        for (const landscape of this.getLandscapes()) {
+            const tierIndex = landscape.tiers.findIndex(t => t.profiles.includes(profileName));
+            if (tierIndex >= 0) {
+                return { landscape, tierIndex };
+            }
+        }
+        return undefined;
+    }
+
+    private async removeFromLandscapes(profileName: string): Promise<void> {
+        const landscapes = this.getLandscapes();
+        if (!landscapes.some(l => l.tiers.some(t => t.profiles.includes(profileName)))) {
+            return;
+        }
+        for (const landscape of landscapes) {
+            landscape.tiers.forEach(t => t.profiles = t.profiles.filter(p => p !== profileName));
+        }
+        await this.context.globalState.update(LANDSCAPES_KEY, landscapes);
+    }
+
+    /**
+     * Get the file hashes recorded by the last deploy of a BSP application
+     */
+    getDeployManifest(profile: SapProfile, bspName: string): Record<string, string> | undefined {
+        const manifests = this.context.globalState.get<Record<string, Record<string, string>>>(MANIFESTS_KEY, {});
+        return manifests[this.getManifestKey(profile, bspName)];
+    }
+
+    /**
+     * Store the file hashes of a BSP application after a deploy
+     */
+    async saveDeployManifest(profile: SapProfile, bspName: string, manifest: Record<string, string>): Promise<void> {
+        const manifests = this.context.globalState.get<Record<string, Record<string, string>>>(MANIFESTS_KEY, {});
+        manifests[this.getManifestKey(profile, bspName)] = manifest;
+        await this.context.globalState.update(MANIFESTS_KEY, manifests);
+    }
+
+    /**
+     * Manifests belong to a system, not to a profile name, so renamed or
+     * duplicated profiles pointing to the same client share them
+     */
+    private getManifestKey(profile: SapProfile, bspName: string): string {
+        const server = profile.server.replace(/\/+$/, '').toLowerCase();
+        return `${server}|${profile.client}|${bspName.toUpperCase()}`;
+    }
+
     /**
      * Read .nwabaprc file from a directory
      */
@@ -144,20 +603,69 @@ export class ConfigService {
             const content = fs.readFileSync(configPath, 'utf-8');
             return JSON.parse(content) as NwabapConfig;
         } catch (error) {
-            console.error('Failed to parse .nwabaprc:', error);
+            LogService.error('Failed to parse .nwabaprc', error);
             return undefined;
         }
     }
 
     /**
-     * Write .nwabaprc file to a directory
+     * Write .nwabaprc file to a directory (passwords are never persisted)
      */
     writeNwabaprc(directory: string, config: NwabapConfig): void {
         const configPath = path.join(directory, '.nwabaprc');
-        const content = JSON.stringify(config, null, 2);
+        const { conn_password, ...safeConfig } = config;
+        const content = JSON.stringify(safeConfig, null, 2);
         fs.writeFileSync(configPath, content, 'utf-8');
     }
 
+    /**
+     * Find the profile a .nwabaprc belongs to: by its profile reference,
+     * or for older files by matching server, client and user
+     */
+    getNwabaprcProfile(config: NwabapConfig): SapProfile | undefined {
+        if (config.profile) {
+            const profile = this.getProfile(config.profile);
+            if (profile) {
+                return profile;
+            }
+        }
+
+        const server = (config.conn_server || '').replace(/\/+$/, '').toLowerCase();
+        return this.getProfiles().find(p =>
+            p.server.replace(/\/+$/, '').toLowerCase() === server &&
+            p.client === config.conn_client &&
+            (!config.conn_user || p.user.toUpperCase() === config.conn_user.toUpperCase())
+        );
+    }
+
+    /**
+     * Remove plaintext passwords from every .nwabaprc in the workspace and
+     * replace them with a profile reference where a matching profile exists.
+     * Returns the number of files that were cleaned.
+     */
+    async migrateNwabaprcFiles(): Promise<number> {
+        const files = await vscode.workspace.findFiles('**/.nwabaprc', '**/node_modules/**');
+        let migrated = 0;
+
+        for (const file of files) {
+            const directory = path.dirname(file.fsPath);
+            const config = this.readNwabaprc(directory);
+            if (!config || config.conn_password === undefined) {
+                continue;
+            }
+
+            const profile = this.getNwabaprcProfile(config);
+            if (profile) {
+                config.profile = profile.name;
+            }
+
+            this.writeNwabaprc(directory, config);
+            migrated++;
+        }
+
+        return migrated;
+    }
+
     /**
      * Create .nwabaprc from a profile and BSP details
      */
@@ -171,22 +679,24 @@ export class ConfigService {
             transport: string;
         }
     ): Promise<void> {
-        const config = await this.getConnectionConfig(profileName);
-        if (!config) {
-            throw new Error(`Profile "${profileName}" not found or password not set`);
+        const profile = this.getProfile(profileName);
+        if (!profile) {
+            throw new Error(`Profile "${profileName}" not found`);
         }
 
+        // The password stays in SecretStorage, the file only references the profile
         const nwabapConfig: NwabapConfig = {
             base: './dist',
-            conn_server: config.server,
-            conn_client: config.client,
-            conn_user: config.user,
-            conn_password: config.password,
-            conn_usestrictssl: config.useStrictSSL,
+            profile: profile.name,
+            conn_server: profile.server,
+            conn_client: profile.client,
+            conn_user: profile.user,
+            conn_usestrictssl: profile.useStrictSSL,
             abap_package: bspDetails.package,
             abap_bsp: bspDetails.bspName,
             abap_bsp_text: bspDetails.bspText,
-            abap_transport: bspDetails.transport
+            abap_transport: bspDetails.transport,
+            abap_language: profile.language
         };
 
         this.writeNwabaprc(directory, nwabapConfig);
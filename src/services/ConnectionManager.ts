@@ -0,0 +1,106 @@
+import { ConfigService } from './ConfigService';
+import { SapConnection } from './SapConnection';
+
+// OAuth connections are rebuilt this long before their token expires
+const TOKEN_MARGIN_MS = 60 * 1000;
+
+interface ManagedConnection {
+    connection: SapConnection;
+    /** Expiry of the OAuth access token the connection was built with (epoch milliseconds) */
+    expiresAt?: number;
+}
+
+/**
+ * One shared connection per profile. Services and views get their connection
+ * here, so the session, cookies and CSRF token of a system are reused instead
+ * of logging on again for every request.
+ */
+export class ConnectionManager {
+    private configService: ConfigService;
+    private connections: Map<string, Promise<ManagedConnection | undefined>> = new Map();
+
+    constructor(configService: ConfigService) {
+        this.configService = configService;
+    }
+
+    /**
+     * Connection of the profile, undefined if the profile does not exist or
+     * has no credentials stored
+     */
+    async get(profileName: string): Promise<SapConnection | undefined> {
+        let pending = this.connections.get(profileName);
+        if (pending) {
+            const managed = await pending.catch(() => undefined);
+            if (managed?.expiresAt && managed.expiresAt - TOKEN_MARGIN_MS <= Date.now()) {
+                await this.close(profileName);
+                pending = undefined;
+            }
+        }
+
+        if (!pending) {
+            pending = this.create(profileName);
+            this.connections.set(profileName, pending);
+        }
+
+        try {
+            const managed = await pending;
+            if (!managed) {
+                this.forget(profileName, pending);
+            }
+            return managed?.connection;
+        } catch (error) {
+            // Failed logons (e.g. cancelled OAuth sign-in) are not cached
+            this.forget(profileName, pending);
+            throw error;
+        }
+    }
+
+    /**
+     * Logs off the session of the profile, e.g. after the profile was changed
+     * or deleted. The next get() builds a new connection.
+     */
+    async close(profileName: string): Promise<void> {
+        const pending = this.connections.get(profileName);
+        if (!pending) {
+            return;
+        }
+        this.connections.delete(profileName);
+
+        const managed = await pending.catch(() => undefined);
+        await managed?.connection.close();
+    }
+
+    async closeAll(): Promise<void> {
+        await Promise.all(Array.from(this.connections.keys()).map(name => this.close(name)));
+    }
+
+    // ===== Private Helper Methods =====
+
+    private async create(profileName: string): Promise<ManagedConnection | undefined> {
+        const config = await this.configService.getConnectionConfig(profileName);
+        if (!config) {
+            return undefined;
+        }
+
+        if (config.authType !== 'oauth') {
+            return { connection: new SapConnection(config) };
+        }
+
+        // A token rejected by the server is renewed by the connection itself
+        const managed: ManagedConnection = {
+            connection: new SapConnection(config, async () => {
+                const accessToken = await this.configService.renewAccessToken(profileName);
+                managed.expiresAt = (await this.configService.getOAuthTokens(profileName))?.expiresAt;
+                return accessToken;
+            }),
+            expiresAt: (await this.configService.getOAuthTokens(profileName))?.expiresAt
+        };
+        return managed;
+    }
+
+    private forget(profileName: string, pending: Promise<ManagedConnection | undefined>): void {
+        if (this.connections.get(profileName) === pending) {
+            this.connections.delete(profileName);
+        }
+    }
+}
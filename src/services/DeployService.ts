@@ -1,15 +1,84 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
-import { SapProfile } from './SapConnection';
+import { CancelledError, SapConnection, SapProfile } from './SapConnection';
 
 import { ConfigService } from './ConfigService';
+import { BspDownloadResult, BspService } from './BspService';
+import { ConnectionManager } from './ConnectionManager';
+import { LogService } from './LogService';
+import { UploadService, UploadEntry, UploadFileResult, UploadResult } from './UploadService';
+
+export interface DeployPlan {
+    profile: string;
+    server: string;
+    client: string;
+    bspName: string;
+    package: string;
+    transport: string;
+    sourceDir: string;
+    applicationExists: boolean;
+    syncDeletions: boolean;
+    transportCheck: {
+        required: boolean;
+        availableRequests: Array<{ trId: string; description: string }>;
+    };
+    folders: { create: string[]; delete: string[] };
+    files: { create: string[]; update: string[]; delete: string[]; unchanged: string[] };
+    /** Unchanged files judged by the last deploy from this machine, not by the server */
+    unchangedByManifest: number;
+    generatedAt: string;
+}
+
+export interface RemoteComparison {
+    profile: string;
+    bspName: string;
+    /** Local folder that was compared (the folder a deploy would upload) */
+    localDir: string;
+    applicationExists: boolean;
+    /** Files that only exist locally */
+    added: string[];
+    /** Files whose content differs */
+    modified: string[];
+    /** Files and folders (ending with "/") that only exist on the server */
+    removed: string[];
+    unchanged: string[];
+}
+
+/**
+ * Target of a promotion as found before anything is written
+ */
+export interface PromotionTarget {
+    profile: string;
+    applicationExists: boolean;
+    /** Package of the application in the target, else the one in the source system */
+    package: string;
+    description: string;
+    /** Transport request the application is already locked in */
+    lockTransport?: string;
+    transportCheck: {
+        required: boolean;
+        availableRequests: Array<{ trId: string; description: string }>;
+    };
+}
+
+export interface PromotionResult {
+    profile: string;
+    result?: UploadResult;
+    error?: string;
+    /** Stopped before anything was written, e.g. the deletion question was dismissed */
+    cancelled?: boolean;
+}
 
 export class DeployService {
 
     private configService: ConfigService;
+    private connections: ConnectionManager;
 
-    constructor(configService: ConfigService) {
+    constructor(configService: ConfigService, connections: ConnectionManager) {
         this.configService = configService;
+        this.connections = connections;
     }
 
     /**
@@ -21,11 +90,8 @@ export class DeployService {
             const profile = this.configService.getProfile(profileName);
             if (!profile) return { exists: false };
 
-            const password = await this.configService.getPassword(profileName);
-            if (!password) return { exists: false };
-
-            const { SapConnection } = require('./SapConnection');
-            const connection = new SapConnection({ ...profile, password });
+            const connection = await this.connections.get(profileName);
+            if (!connection) return { exists: false };
             
             // Create a temporary BspService to reuse its parsing logic
             const { BspService } = require('./BspService');
@@ -48,7 +114,7 @@ export class DeployService {
 			<OBJECTNAME></OBJECTNAME>
 			<DEVCLASS></DEVCLASS>
 			<OPERATION></OPERATION>
-			<URI>/sap/bc/adt/filestore/ui5-bsp/objects/${appName}/$new</URI>
+			<URI>/sap/bc/adt/filestore/ui5-bsp/objects/${encodeURIComponent(appName)}/$new</URI>
 		</DATA>
 	</asx:values>
 </asx:abap>`;
@@ -71,7 +137,7 @@ export class DeployService {
                     packageVal = data.DEVCLASS;
                 }
             } catch (e) {
-                console.warn('Could not extract package from check 1', e);
+                LogService.warn('Could not extract package from check 1', e);
             }
 
             // Step 2: Check with discovered package to find Locks
@@ -84,7 +150,7 @@ export class DeployService {
 			<OBJECTNAME></OBJECTNAME>
 			<DEVCLASS>${packageVal}</DEVCLASS>
 			<OPERATION>I</OPERATION>
-			<URI>/sap/bc/adt/filestore/ui5-bsp/objects/${appName}/$create</URI>
+			<URI>/sap/bc/adt/filestore/ui5-bsp/objects/${encodeURIComponent(appName)}/$create</URI>
 		</DATA>
 	</asx:values>
 </asx:abap>`;
@@ -111,7 +177,7 @@ export class DeployService {
                     }
                 }
             } catch (e) {
-                console.warn('Could not extract lock info', e);
+                LogService.warn('Could not extract lock info', e);
             }
             
             
@@ -130,7 +196,7 @@ export class DeployService {
             };
 
         } catch (error) {
-            console.error('Error checking BSP application:', error);
+            LogService.error('Error checking BSP application', error);
             return { exists: false };
         }
     }
@@ -144,16 +210,13 @@ export class DeployService {
             const profile = this.configService.getProfile(profileName);
             if (!profile) return false;
 
-            const password = await this.configService.getPassword(profileName);
-            if (!password) return false;
-
-            const { SapConnection } = require('./SapConnection');
-            const connection = new SapConnection({ ...profile, password });
+            const connection = await this.connections.get(profileName);
+            if (!connection) return false;
 
             // Simple GET to check existence
             // If it exists, it returns 200. If not, 404.
             try {
-                await connection.get(`/sap/bc/adt/filestore/ui5-bsp/objects/${appName}`);
+                await connection.get(`/sap/bc/adt/filestore/ui5-bsp/objects/${encodeURIComponent(appName)}`);
                 return true;
             } catch (e: any) {
                 if (e.response && e.response.status === 404) {
@@ -207,18 +270,15 @@ export class DeployService {
             const profile = this.configService.getProfile(profileName);
             if (!profile) return [];
             
-            const password = await this.configService.getPassword(profileName);
-            if (!password) return [];
-
-            const { SapConnection } = require('./SapConnection');
-            const connection = new SapConnection({ ...profile, password });
+            const connection = await this.connections.get(profileName);
+            if (!connection) return [];
 
             const { BspService } = require('./BspService');
             const bspService = new BspService(connection);
 
             return await bspService.listBspApplications(); // Use correct method
         } catch (error) {
-            console.error('Failed to get BSP applications:', error);
+            LogService.error('Failed to get BSP applications', error);
             return [];
         }
     }
@@ -231,11 +291,8 @@ export class DeployService {
             const profile = this.configService.getProfile(profileName);
             if (!profile) return 'Unknown';
             
-            const { SapConnection } = require('./SapConnection');
-            const password = await this.configService.getPassword(profileName);
-            if (!password) return 'Unknown (No Password)';
-
-            const connection = new SapConnection({ ...profile, password });
+            const connection = await this.connections.get(profileName);
+            if (!connection) return 'Unknown (No Credentials)';
             
             try {
                 const response = await connection.get('/sap/public/bc/ui5_ui5/resources/sap-ui-version.json');
@@ -245,7 +302,7 @@ export class DeployService {
                 return 'Unknown';
             }
         } catch (error) {
-            console.error('Failed to get UI5 version:', error);
+            LogService.error('Failed to get UI5 version', error);
             return 'Unknown';
         }
     }
@@ -258,10 +315,8 @@ export class DeployService {
             const profile = this.configService.getProfile(profileName);
             if (!profile) return [];
             
-            const password = await this.configService.getPassword(profileName);
-            if (!password) return [];
-            const { SapConnection } = require('./SapConnection');
-            const connection = new SapConnection({ ...profile, password });
+            const connection = await this.connections.get(profileName);
+            if (!connection) return [];
 
             const user = profile.user.toUpperCase();
             // status=D (Modifiable), requestType=K (Workbench)
@@ -291,7 +346,7 @@ export class DeployService {
             return requests;
 
         } catch (error) {
-            console.error('Failed to get transport requests:', error);
+            LogService.error('Failed to get transport requests', error);
             return []; // Return empty if failed
         }
     }
@@ -302,16 +357,16 @@ export class DeployService {
     async createTransportRequest(profileName: string, description: string, packageName: string, bspName: string): Promise<string> {
         const profile = this.configService.getProfile(profileName);
         if (!profile) throw new Error("Profile not found");
+        this.assertWritable(profileName);
         
-        const password = await this.configService.getPassword(profileName);
-        if (!password) throw new Error("Password not found");
-
-        const { SapConnection } = require('./SapConnection');
-        const connection = new SapConnection({ ...profile, password });
+        const connection = await this.connections.get(profileName);
+        if (!connection) throw new Error("Credentials not found");
 
         const url = '/sap/bc/adt/cts/transports';
+        // Language of the request text, the logon language of the profile
+        const language = profile.language ? `<LANGU>${profile.language}</LANGU>` : '';
         
-        const body = `<?xml version="1.0" encoding="UTF-8"?><asx:abap xmlns:asx="http://www.sap.com/abapxml" version="1.0"><asx:values><DATA><OPERATION>I</OPERATION><DEVCLASS>${packageName}</DEVCLASS><REQUEST_TEXT>${description}</REQUEST_TEXT><REF>/sap/bc/adt/filestore/ui5-bsp/objects/${bspName}/$create</REF></DATA></asx:values></asx:abap>`;
+        const body = `<?xml version="1.0" encoding="UTF-8"?><asx:abap xmlns:asx="http://www.sap.com/abapxml" version="1.0"><asx:values><DATA><OPERATION>I</OPERATION><DEVCLASS>${packageName}</DEVCLASS><REQUEST_TEXT>${description}</REQUEST_TEXT>${language}<REF>/sap/bc/adt/filestore/ui5-bsp/objects/${encodeURIComponent(bspName)}/$create</REF></DATA></asx:values></asx:abap>`;
 
         const headers = {
             'Content-Type': 'application/vnd.sap.as+xml; charset=UTF-8; dataname=com.sap.adt.CreateCorrectionRequest', 
@@ -336,15 +391,12 @@ export class DeployService {
                  if (match) return match[0];
             }
             
-            throw new Error(`Could not parse TR number from response: ${response}`);
+            // The full response is in the request log
+            throw new Error(`Could not parse TR number from response: ${String(response).substring(0, 200)}`);
 
         } catch (error: any) {
-            console.error('[DeployService] Create Transport Failed:', error);
-            if (error.response) {
-                 console.error('[DeployService] Error Status:', error.response.status);
-                 console.error('[DeployService] Error Data:', error.response.data);
-                 console.error('[DeployService] Error Headers:', error.response.headers);
-            }
+            // Status and response body are in the request log
+            LogService.error('Create transport failed', error);
             throw error;
         }
     }
@@ -352,11 +404,13 @@ export class DeployService {
     /**
      * Pre-creation check: Is Transport Request required?
      * Also returns user's open transport requests if available.
+     * Runs on `via` when given, e.g. the read-only view of a dry run.
      */
     async checkTransportRequired(
         profileName: string, 
         packageName: string, 
-        bspName: string
+        bspName: string,
+        via?: SapConnection
     ): Promise<{
         required: boolean;
         availableRequests: Array<{ trId: string; description: string }>;
@@ -365,11 +419,8 @@ export class DeployService {
             const profile = this.configService.getProfile(profileName);
             if (!profile) return { required: true, availableRequests: [] };
             
-            const password = await this.configService.getPassword(profileName);
-            if (!password) return { required: true, availableRequests: [] };
-
-            const { SapConnection } = require('./SapConnection');
-            const connection = new SapConnection({ ...profile, password });
+            const connection = via || await this.connections.get(profileName);
+            if (!connection) return { required: true, availableRequests: [] };
 
             const url = '/sap/bc/adt/cts/transportchecks';
             
@@ -382,7 +433,7 @@ export class DeployService {
 			<OBJECTNAME></OBJECTNAME>
 			<DEVCLASS>${packageName}</DEVCLASS>
 			<OPERATION>I</OPERATION>
-			<URI>/sap/bc/adt/filestore/ui5-bsp/objects/${bspName}/$create</URI>
+			<URI>/sap/bc/adt/filestore/ui5-bsp/objects/${encodeURIComponent(bspName)}/$create</URI>
 		</DATA>
 	</asx:values>
 </asx:abap>`;
@@ -443,7 +494,7 @@ export class DeployService {
                     }
                 }
             } catch (parseError) {
-                console.warn('Error parsing transport check response:', parseError);
+                LogService.warn('Error parsing transport check response', parseError);
             }
 
             // No fallback to getTransportRequests as user stated it is not needed/URL is wrong.
@@ -452,7 +503,7 @@ export class DeployService {
             return { required, availableRequests };
 
         } catch (error) {
-            console.error('Failed to check transport requirements:', error);
+            LogService.error('Failed to check transport requirements', error);
             const fallbackRequests = await this.getTransportRequests(profileName);
             return { 
                 required: true, 
@@ -473,11 +524,8 @@ export class DeployService {
             const profile = this.configService.getProfile(profileName);
             if (!profile) return [];
             
-            const password = await this.configService.getPassword(profileName);
-            if (!password) return [];
-
-            const { SapConnection } = require('./SapConnection');
-            const connection = new SapConnection({ ...profile, password });
+            const connection = await this.connections.get(profileName);
+            if (!connection) return [];
 
             // Simplified API - fetch all packages with just parent_type
             const parentName = query ? query.toUpperCase() : '';
@@ -495,7 +543,7 @@ export class DeployService {
             }
 
             // Headers
-            const config = {
+            const requestConfig = {
                 params: params,
                 headers: {
                     'Content-Type': 'application/xml',
@@ -504,7 +552,7 @@ export class DeployService {
             };
             
             // Sending empty string as body because some servers dislike null with Content-Type
-            const response = await connection.post(url, '', config);
+            const response = await connection.post(url, '', requestConfig);
             
             const { XMLParser } = require('fast-xml-parser');
             const parser = new XMLParser({ 
@@ -554,18 +602,13 @@ export class DeployService {
             return packages;
 
         } catch (error: any) {
-            console.error('Failed to search packages (nodestructure):', error);
-            // Log full error for debugging
-             if (error.response) {
-                console.error('Response Status:', error.response.status);
-                console.error('Response Data:', error.response.data);
-            }
+            LogService.error('Failed to search packages (nodestructure)', error);
             return [];
         }
     }
 
     /**
-     * Deploys the application using nwabap-ui5uploader
+     * Deploys the application through the ADT filestore API
      */
     async deploy(
         profileName: string, 
@@ -575,158 +618,415 @@ export class DeployService {
             description: string; 
             transport: string;
             sourceDir: string;
+            delta?: boolean;
+            syncDeletions?: boolean;
+            /** Upload sourceDir as is instead of its webapp or dist folder */
+            exactSourceDir?: boolean;
         },
         progress: vscode.Progress<{ message?: string; increment?: number }>,
-        logCallback?: (line: string) => void
-    ): Promise<void> {
+        onFile?: (result: UploadFileResult) => void,
+        confirmDeletions?: (entries: UploadEntry[]) => Promise<boolean>,
+        token?: vscode.CancellationToken
+    ): Promise<UploadResult> {
         
         const profile = this.configService.getProfile(profileName);
         if (!profile) {
             throw new Error(`Profile "${profileName}" not found`);
         }
+        this.assertWritable(profileName);
         
-        const password = await this.configService.getPassword(profileName);
-        if (!password) {
-            throw new Error(`Password for profile "${profileName}" not found`);
+        const connection = await this.connections.get(profileName);
+        if (!connection) {
+            throw new Error(`Credentials for profile "${profileName}" not found`);
         }
 
-        const fs = require('fs');
-        const path = require('path');
-        const cp = require('child_process');
+        const uploadDir = params.exactSourceDir ? params.sourceDir : DeployService.resolveUploadDir(params.sourceDir);
+        const uploadService = new UploadService(connection);
 
-        // Direct deployment from webapp folder (no build) as requested
-        let projectRoot = params.sourceDir;
-        if (!fs.existsSync(path.join(projectRoot, 'package.json'))) {
-             const parent = path.dirname(projectRoot);
-             if (fs.existsSync(path.join(parent, 'package.json'))) {
-                 projectRoot = parent;
-             }
-        }
+        // Delta mode skips files whose content on the server is already identical
+        const delta = params.delta ?? vscode.workspace.getConfiguration('bspManager').get<boolean>('deltaDeploy', true);
 
-        let cwd = params.sourceDir;
-        if (fs.existsSync(path.join(projectRoot, 'webapp'))) {
-             // Use webapp folder directly to ensure we upload contents, not the folder itself
-             cwd = path.join(projectRoot, 'webapp');
-        } else if (fs.existsSync(path.join(projectRoot, 'dist'))) {
-             // Fallback to dist if webapp is not found (though user prefers webapp)
-             cwd = path.join(projectRoot, 'dist');
+        progress.report({ message: 'Comparing with server...' });
+        const plan = await uploadService.createPlan(uploadDir, params.bspName, {
+            delta,
+            manifest: this.configService.getDeployManifest(profile, params.bspName),
+            syncDeletions: params.syncDeletions
+        }, progress, token);
+
+        // Remote-only files are only deleted after the caller confirmed the list
+        const deletions = plan.entries.filter(e => e.action === 'delete');
+        if (deletions.length > 0 && confirmDeletions && !(await confirmDeletions(deletions))) {
+            plan.entries = plan.entries.filter(e => e.action !== 'delete');
         }
 
-        // Create a temporary .nwabaprc configuration
-        const nwabapConfig = {
-            base: './', // The sourceDir is passed as cwd to the process, so base is relative to it
-            files: "**",
-            conn_server: profile.server,
-            conn_client: profile.client,
-            conn_user: profile.user,
-            conn_password: password,
-            conn_usestrictssl: profile.useStrictSSL,
-            abap_package: params.package,
-            abap_bsp: params.bspName,
-            abap_bsp_text: params.description,
-            abap_transport: params.transport,
-            abap_language: "EN",
-            calcappindex: true
-        };
+        progress.report({ message: 'Uploading files...' });
+        const result = await uploadService.execute(plan, {
+            bspName: params.bspName,
+            package: params.package,
+            description: params.description,
+            transport: params.transport
+        }, progress, onFile, token);
 
-        const configPath = path.join(cwd, '.nwabaprc');
+        await this.configService.saveDeployManifest(profile, params.bspName, UploadService.buildManifest(plan, result));
 
-        try {
-            // Write config file
-            fs.writeFileSync(configPath, JSON.stringify(nwabapConfig, null, 4));
+        // A cancelled run is returned as is, the caller reports what was written
+        if (result.cancelled) {
+            return result;
+        }
 
-            progress.report({ message: 'Uploading files...' });
+        if (result.failed > 0) {
+            const firstError = result.results.find(r => !r.success);
+            throw new Error(`${result.failed} of ${result.results.length} objects failed to upload. ${firstError?.path}: ${firstError?.error}`);
+        }
 
-            await DeployService.runNwabapUpload(cwd, progress, 3, logCallback);
+        progress.report({ message: 'Deployment complete!' });
+        return result;
+    }
 
-        } catch (error: any) {
-            console.error('Upload failed:', error);
-            // Try clean up in case of error
-            try { if (fs.existsSync(configPath)) fs.unlinkSync(configPath); } catch (e) {}
-            throw error;
+    /**
+     * Builds the change plan of a deployment without writing anything.
+     * Everything runs on a read-only connection, so any POST, PUT or DELETE
+     * would fail instead of reaching the server. The transport check is the
+     * only POST sent; it reads the transport requirements and changes nothing.
+     */
+    async createDeployPlan(
+        profileName: string,
+        params: {
+            bspName: string;
+            package: string;
+            transport: string;
+            sourceDir: string;
+            delta?: boolean;
+            syncDeletions?: boolean;
+        },
+        progress?: vscode.Progress<{ message?: string; increment?: number }>,
+        token?: vscode.CancellationToken
+    ): Promise<DeployPlan> {
+        const profile = this.configService.getProfile(profileName);
+        if (!profile) {
+            throw new Error(`Profile "${profileName}" not found`);
+        }
+
+        const shared = await this.connections.get(profileName);
+        if (!shared) {
+            throw new Error(`Credentials for profile "${profileName}" not found`);
         }
+
+        const uploadDir = DeployService.resolveUploadDir(params.sourceDir);
+        const connection = shared.readOnlyView();
+        const uploadService = new UploadService(connection);
+
+        const delta = params.delta ?? vscode.workspace.getConfiguration('bspManager').get<boolean>('deltaDeploy', true);
+
+        progress?.report({ message: 'Comparing with server...' });
+        const plan = await uploadService.createPlan(uploadDir, params.bspName, {
+            delta,
+            manifest: this.configService.getDeployManifest(profile, params.bspName),
+            syncDeletions: params.syncDeletions
+        }, progress, token);
+
+        // Local objects never need a transport request
+        progress?.report({ message: 'Checking transport requirements...' });
+        const transportCheck = params.package === '$TMP'
+            ? { required: false, availableRequests: [] }
+            : await this.checkTransportRequired(profileName, params.package, params.bspName, connection);
+
+        const paths = (type: 'file' | 'folder', action: string) =>
+            plan.entries.filter(e => e.type === type && e.action === action).map(e => e.path);
+
+        return {
+            profile: profile.name,
+            server: profile.server,
+            client: profile.client,
+            bspName: params.bspName,
+            package: params.package,
+            transport: params.transport,
+            sourceDir: uploadDir,
+            applicationExists: plan.containerExists,
+            syncDeletions: !!params.syncDeletions,
+            transportCheck: {
+                required: transportCheck.required,
+                availableRequests: transportCheck.availableRequests.map(r => ({ trId: r.trId, description: r.description }))
+            },
+            folders: {
+                create: paths('folder', 'create'),
+                delete: paths('folder', 'delete')
+            },
+            files: {
+                create: paths('file', 'create'),
+                update: paths('file', 'update'),
+                delete: paths('file', 'delete'),
+                unchanged: plan.unchanged
+            },
+            unchangedByManifest: plan.unchangedByManifest.length,
+            generatedAt: new Date().toISOString()
+        };
     }
+
     /**
-     * Executes the nwabap upload process.
-     * Shared by DeployService.deploy and uploadBsp command.
+     * Compares the local project with the deployed application by content hash.
+     * Runs on a read-only connection, like the deploy preview.
      */
-    static async runNwabapUpload(
-        projectFolder: string, 
+    async compareWithRemote(
+        profileName: string,
+        bspName: string,
+        sourceDir: string,
         progress?: vscode.Progress<{ message?: string; increment?: number }>,
-        maxRetries: number = 3,
-        logCallback?: (line: string) => void
-    ): Promise<void> {
-        const cp = require('child_process');
-        const npxCommand = process.platform === 'win32' ? 'npx.cmd' : 'npx';
+        token?: vscode.CancellationToken
+    ): Promise<RemoteComparison> {
+        const shared = await this.connections.get(profileName);
+        if (!shared) {
+            throw new Error(`Profile "${profileName}" not found or credentials not set`);
+        }
 
-        for (let attempt = 1; attempt <= maxRetries; attempt++) {
-            try {
-                if (attempt > 1 && progress) {
-                    progress.report({ message: `Retrying upload (Attempt ${attempt}/${maxRetries})...` });
-                    // Wait 2 seconds before retry
-                    await new Promise(r => setTimeout(r, 2000));
-                }
+        const uploadDir = DeployService.resolveUploadDir(sourceDir);
+        const connection = shared.readOnlyView();
+        const uploadService = new UploadService(connection);
+
+        // No manifest: every file that exists on both sides is compared by its real content
+        progress?.report({ message: 'Comparing with server...' });
+        const plan = await uploadService.createPlan(uploadDir, bspName, { delta: true, syncDeletions: true }, progress, token);
+
+        const paths = (action: string) => plan.entries
+            .filter(e => e.action === action && (e.type === 'file' || action === 'delete'))
+            .map(e => e.type === 'folder' ? `${e.path}/` : e.path);
+
+        return {
+            profile: profileName,
+            bspName,
+            localDir: uploadDir,
+            applicationExists: plan.containerExists,
+            added: paths('create'),
+            modified: paths('update'),
+            removed: paths('delete'),
+            unchanged: plan.unchanged
+        };
+    }
 
-                await new Promise<void>((resolve, reject) => {
-                    // Using --package to ensure npx finds the correct package even if not in node_modules
-                    const uploadProcess = cp.spawn(npxCommand, ['--package', 'nwabap-ui5uploader', 'nwabap', 'upload'], {
-                        cwd: projectFolder,
-                        shell: true,
-                        env: { ...process.env }
-                    });
-        
-                    let stdout = '';
-                    let stderr = '';
-        
-                    uploadProcess.stdout.on('data', (data: any) => {
-                        const message = data.toString();
-                        stdout += message;
-                        
-                        // Stream to callback if provided
-                        if (logCallback) {
-                             // Split by newlines to handle buffered output
-                             message.split('\n').forEach((line: string) => {
-                                 if(line.trim()) logCallback(line.trim());
-                             });
-                        }
-                        
-                        if (message.includes('Uploading') && progress) {
-                            progress.report({ message: message.trim() });
-                        }
-                    });
-        
-                    uploadProcess.stderr.on('data', (data: any) => {
-                        stderr += data.toString();
-                    });
-        
-                    uploadProcess.on('close', (code: number) => {
-                        if (code === 0) {
-                            if (progress) progress.report({ message: 'Deployment complete!' });
-                            resolve();
-                        } else {
-                            const errorMessage = stderr || stdout || `Process exited with code ${code}`;
-                            // Check if it's a connection error to decide if retry is worth it? 
-                            // For now, retry on any error as BSP upload is idempotent.
-                            reject(new Error(errorMessage));
-                        }
-                    });
-        
-                    uploadProcess.on('error', (error: any) => {
-                        reject(error);
-                    });
-                });
+    /**
+     * Reads what a promotion of an application to the given profiles needs:
+     * package, existing lock and transport requirement of every target.
+     * Throws when the application does not exist in the source system.
+     */
+    async preparePromotion(sourceProfile: string, targetProfiles: string[], bspName: string): Promise<PromotionTarget[]> {
+        const source = await this.checkApplication(sourceProfile, bspName);
+        if (!source.exists || !source.package) {
+            throw new Error(`${bspName} was not found in ${sourceProfile}`);
+        }
 
-                // If success, return immediately
-                return;
+        // The transport check knows no description, the application itself does
+        const shared = await this.connections.get(sourceProfile);
+        const details = shared ? await new BspService(shared.readOnlyView()).getBspDetails(bspName) : undefined;
+        const description: string = details?.description || bspName;
+
+        const targets: PromotionTarget[] = [];
+        for (const profile of targetProfiles) {
+            const target = await this.checkApplication(profile, bspName);
+            const packageName = target.package || source.package;
+            targets.push({
+                profile,
+                applicationExists: target.exists,
+                package: packageName,
+                description: target.description || description,
+                lockTransport: target.transport,
+                transportCheck: packageName === '$TMP'
+                    ? { required: false, availableRequests: [] }
+                    : await this.checkTransportRequired(profile, packageName, bspName)
+            });
+        }
+        return targets;
+    }
 
-            } catch (error: any) {
-                console.warn(`Upload attempt ${attempt} failed:`, error.message);
-                
-                // If this was the last attempt, throw the error
-                if (attempt === maxRetries) {
-                    throw error;
+    /**
+     * Deploys the application as it runs in the source system to each target.
+     * The source is downloaded once into a temporary folder and uploaded with
+     * `deploy`, so files removed in the source are removed in the targets too
+     * (after `confirmDeletions`: true deletes, false keeps the files,
+     * undefined cancels the target and stops the promotion). Dot files and
+     * tooling files such as .nwabaprc are never deleted in a target. Every
+     * file is uploaded, as the manifest of an earlier deploy from this machine
+     * knows nothing about changes made in the target since. A failed target
+     * does not stop the others.
+     */
+    async promote(
+        sourceProfile: string,
+        bspName: string,
+        targets: Array<{ profile: string; package: string; description: string; transport: string }>,
+        progress: vscode.Progress<{ message?: string; increment?: number }>,
+        confirmDeletions?: (profile: string, entries: UploadEntry[]) => Promise<boolean | undefined>,
+        token?: vscode.CancellationToken
+    ): Promise<PromotionResult[]> {
+        targets.forEach(target => this.assertWritable(target.profile));
+        const shared = await this.connections.get(sourceProfile);
+        if (!shared) {
+            throw new Error(`Credentials for profile "${sourceProfile}" not found`);
+        }
+
+        const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bsp-promote-'));
+        try {
+            progress.report({ message: `Downloading ${bspName} from ${sourceProfile}...` });
+            const download: BspDownloadResult = await new BspService(shared.readOnlyView()).downloadBspApplication(bspName, tempDir, progress, token);
+            if (download.cancelled) {
+                throw new CancelledError();
+            }
+            if (download.failed.length > 0) {
+                throw new Error(`${download.failed.length} file(s) could not be read from ${sourceProfile}, nothing was promoted. ${download.failed[0].path}: ${download.failed[0].error}`);
+            }
+
+            const results: PromotionResult[] = [];
+            for (const target of targets) {
+                SapConnection.throwIfCancelled(token);
+                try {
+                    progress.report({ message: `Deploying to ${target.profile}...` });
+                    const result = await this.deploy(target.profile, {
+                        bspName,
+                        package: target.package,
+                        description: target.description,
+                        transport: target.transport,
+                        sourceDir: path.join(tempDir, bspName),
+                        delta: false,
+                        syncDeletions: true,
+                        exactSourceDir: true
+                    }, progress, undefined, confirmDeletions && (async entries => {
+                        const choice = await confirmDeletions(target.profile, entries);
+                        if (choice === undefined) {
+                            throw new CancelledError(`Promotion to ${target.profile} cancelled`);
+                        }
+                        return choice;
+                    }), token);
+                    results.push({ profile: target.profile, result });
+                    if (result.cancelled) {
+                        break;
+                    }
+                } catch (error: any) {
+                    if (error instanceof CancelledError) {
+                        // Targets done so far are still reported
+                        results.push({ profile: target.profile, cancelled: true });
+                        break;
+                    }
+                    results.push({ profile: target.profile, error: String(error.message || error) });
                 }
             }
+            return results;
+        } finally {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+    }
+
+    /**
+     * Read-only profiles never get as far as a write request
+     */
+    private assertWritable(profileName: string): void {
+        if (this.configService.getProtection(profileName) === 'readOnly') {
+            throw new Error(`Profile "${profileName}" is read-only, nothing was written`);
+        }
+    }
+
+    /**
+     * Renders a deploy plan as a Markdown report
+     */
+    static formatPlanReport(plan: DeployPlan): string {
+        const list = (items: string[]) => items.length > 0
+            ? items.map(item => `- \`${item}\``).join('\n')
+            : '_None_';
+
+        let transportLine = plan.transport || '_None_';
+        if (plan.package === '$TMP') {
+            transportLine = 'Local object ($TMP), no transport request needed';
+        } else if (!plan.transport && plan.transportCheck.required) {
+            transportLine = '**Required but not selected**';
+        }
+
+        return [
+            `# Deploy Preview: ${plan.bspName}`,
+            '',
+            `Generated ${plan.generatedAt}. Nothing has been written to the server (the read-only transport check is the only POST request).`,
+            '',
+            '| | |',
+            '|---|---|',
+            `| System | ${plan.profile} (${plan.server}, client ${plan.client}) |`,
+            `| Application | ${plan.bspName} (${plan.applicationExists ? 'exists, will be updated' : 'new, will be created'}) |`,
+            `| Package | ${plan.package} |`,
+            `| Transport | ${transportLine} |`,
+            `| Transport required | ${plan.transportCheck.required ? 'Yes' : 'No'} |`,
+            `| Source | ${plan.sourceDir} |`,
+            `| Sync deletions | ${plan.syncDeletions ? 'Yes' : 'No (remote-only files are kept)'} |`,
+            '',
+            `## Files to add (${plan.files.create.length})`,
+            list(plan.files.create),
+            '',
+            `## Files to update (${plan.files.update.length})`,
+            list(plan.files.update),
+            '',
+            `## Files to delete (${plan.files.delete.length})`,
+            list(plan.files.delete),
+            '',
+            `## Folders to create (${plan.folders.create.length})`,
+            list(plan.folders.create),
+            '',
+            `## Folders to delete with their content (${plan.folders.delete.length})`,
+            list(plan.folders.delete),
+            '',
+            `Unchanged files: ${plan.files.unchanged.length}`,
+            ...(plan.unchangedByManifest > 0 ? [
+                '',
+                `> ${plan.unchangedByManifest} of them are unchanged according to the last deploy from this machine. `
+                + 'Changes made on the server since then (e.g. by a colleague) are not detected; '
+                + 'clear "Only upload new and changed files" to upload everything.'
+            ] : []),
+            ''
+        ].join('\n');
+    }
+
+    /**
+     * Resolves the project folder for a path picked in the explorer:
+     * the folder itself (or the file's folder), preferring a dist folder next to it
+     */
+    static resolveSourceDir(selectedPath: string): string {
+
+        let dir = selectedPath;
+        try {
+            if (fs.statSync(selectedPath).isFile()) {
+                dir = path.dirname(selectedPath);
+            }
+        } catch (e) {
+            // Keep the path as it is
+        }
+
+        // Auto-detect 'dist' if in 'webapp' or root
+        const distPath = path.join(dir, 'dist');
+        const siblingDist = path.join(path.dirname(dir), 'dist');
+
+        if (fs.existsSync(distPath)) {
+            return distPath;
+        } else if (path.basename(dir) === 'webapp' && fs.existsSync(siblingDist)) {
+            return siblingDist;
+        }
+        return dir;
+    }
+
+    /**
+     * Resolves the folder that is uploaded for a selected project path:
+     * the project's webapp folder, else its dist folder, else the path itself
+     */
+    static resolveUploadDir(sourceDir: string): string {
+
+        // Direct deployment from webapp folder (no build) as requested
+        let projectRoot = sourceDir;
+        if (!fs.existsSync(path.join(projectRoot, 'package.json'))) {
+             const parent = path.dirname(projectRoot);
+             if (fs.existsSync(path.join(parent, 'package.json'))) {
+                 projectRoot = parent;
+             }
+        }
+
+        if (fs.existsSync(path.join(projectRoot, 'webapp'))) {
+             // Use webapp folder directly to ensure we upload contents, not the folder itself
+             return path.join(projectRoot, 'webapp');
+        } else if (fs.existsSync(path.join(projectRoot, 'dist'))) {
+             // Fallback to dist if webapp is not found (though user prefers webapp)
+             return path.join(projectRoot, 'dist');
         }
+        return sourceDir;
     }
 }
@@ -0,0 +1,288 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { XMLParser } from 'fast-xml-parser';
+import { SapProfile } from './SapConnection';
+
+/**
+ * Profile read from a landscape or CSV file, before the user picks it
+ */
+export interface ProfileProposal {
+    profile: SapProfile;
+    /** Entry the profile was read from, e.g. the SAP Logon description */
+    source: string;
+    /** What was derived or could not be read, e.g. a guessed port */
+    notes: string[];
+}
+
+interface MessageServer {
+    host: string;
+    port?: string;
+}
+
+/**
+ * Reads SAP systems from SAP Logon's SAPUILandscape.xml or a simple CSV
+ * (name, server, client, user) and turns them into profile proposals.
+ * SAP GUI entries only know the DIAG port, so the HTTPS URL is derived from
+ * the instance number (443<NN>); entries with a URL (Fiori, NWBC) use it directly.
+ */
+export class LandscapeImportService {
+
+    /**
+     * Default location of SAPUILandscape.xml on Windows, if it exists
+     */
+    static defaultLandscapeFile(): string | undefined {
+        const appData = process.env.APPDATA;
+        if (!appData) {
+            return undefined;
+        }
+        const file = path.join(appData, 'SAP', 'Common', 'SAPUILandscape.xml');
+        return fs.existsSync(file) ? file : undefined;
+    }
+
+    /**
+     * Proposals from a file, CSV by extension, otherwise landscape XML
+     */
+    static parseFile(filePath: string): ProfileProposal[] {
+        const text = fs.readFileSync(filePath, 'utf8');
+        return path.extname(filePath).toLowerCase() === '.csv'
+            ? LandscapeImportService.parseCsv(text)
+            : LandscapeImportService.parseLandscapeXml(text);
+    }
+
+    static parseLandscapeXml(text: string): ProfileProposal[] {
+        const parser = new XMLParser({
+            ignoreAttributes: false,
+            attributeNamePrefix: '@_',
+            isArray: (name) => ['Service', 'Messageserver', 'Router'].includes(name)
+        });
+        const landscape = parser.parse(text)?.Landscape;
+        if (!landscape) {
+            throw new Error('Not an SAP Logon landscape file (no <Landscape> element)');
+        }
+
+        const messageServers = new Map<string, MessageServer>();
+        for (const ms of landscape.Messageservers?.Messageserver || []) {
+            messageServers.set(ms['@_uuid'], { host: ms['@_host'], port: ms['@_port'] });
+        }
+
+        const proposals: ProfileProposal[] = [];
+        for (const service of landscape.Services?.Service || []) {
+            const proposal = LandscapeImportService.fromService(service, messageServers);
+            if (proposal) {
+                proposals.push(proposal);
+            }
+        }
+        return LandscapeImportService.uniqueNames(proposals);
+    }
+
+    /**
+     * CSV with the columns name, server, client, user. A header row may name
+     * the columns in any order (server may also be called url or host).
+     * Comma and semicolon are accepted as separators.
+     */
+    static parseCsv(text: string): ProfileProposal[] {
+        // Line numbers of the file, counted before blank and comment lines are dropped
+        const lines = text.split(/\r?\n/)
+            .map((line, index) => ({ line, number: index + 1 }))
+            .filter(({ line }) => line.trim() && !line.trim().startsWith('#'));
+        if (lines.length === 0) {
+            return [];
+        }
+
+        const first = lines[0].line;
+        const separator = (first.match(/;/g) || []).length > (first.match(/,/g) || []).length ? ';' : ',';
+        const rows = lines.map(({ line, number }) => ({ cells: LandscapeImportService.splitCsvLine(line, separator), number }));
+
+        let columns = { name: 0, server: 1, client: 2, user: 3 };
+        const header = rows[0].cells.map(cell => cell.toLowerCase());
+        if (header.some(cell => ['name', 'server', 'url', 'host'].includes(cell))) {
+            const find = (...names: string[]) => header.findIndex(cell => names.includes(cell));
+            columns = {
+                name: find('name', 'profile'),
+                server: find('server', 'url', 'host'),
+                client: find('client', 'mandant'),
+                user: find('user', 'username')
+            };
+            rows.shift();
+        }
+
+        const proposals: ProfileProposal[] = [];
+        rows.forEach(({ cells, number }) => {
+            const cell = (column: number) => (column >= 0 ? cells[column] || '' : '').trim();
+            const server = cell(columns.server);
+            if (!server) {
+                return;
+            }
+
+            const notes: string[] = [];
+            let url = server;
+            if (!/^https?:\/\//i.test(url)) {
+                url = `https://${url}`;
+                notes.push('https:// added to the server');
+            }
+
+            // A server that is no URL skips the row instead of failing the import
+            let hostname: string;
+            try {
+                hostname = new URL(url).hostname;
+            } catch (error) {
+                return;
+            }
+
+            proposals.push({
+                profile: {
+                    name: cell(columns.name) || hostname,
+                    server: url.replace(/\/+$/, ''),
+                    client: LandscapeImportService.normalizeClient(cell(columns.client), notes),
+                    user: cell(columns.user).toUpperCase(),
+                    useStrictSSL: true,
+                    authType: 'basic'
+                },
+                source: `Line ${number}`,
+                notes
+            });
+        });
+        return LandscapeImportService.uniqueNames(proposals);
+    }
+
+    // ===== Private Helper Methods =====
+
+    private static fromService(service: any, messageServers: Map<string, MessageServer>): ProfileProposal | undefined {
+        const description = String(service['@_name'] || service['@_systemid'] || '').trim();
+        const systemId = String(service['@_systemid'] || '').trim();
+        const notes: string[] = [];
+        let server: string | undefined;
+        let client = String(service['@_client'] || '').trim();
+
+        if (service['@_url']) {
+            // Fiori launchpad and NWBC entries come with a URL
+            try {
+                const url = new URL(service['@_url']);
+                server = url.origin;
+                client = client || url.searchParams.get('sap-client') || '';
+            } catch (error) {
+                return undefined;
+            }
+        } else if (service['@_type'] && service['@_type'] !== 'SAPGUI') {
+            return undefined;
+        } else if (service['@_msid'] && messageServers.has(service['@_msid'])) {
+            // Load balancing entry: message server host, instance from the port (36<NN>) if possible
+            const ms = messageServers.get(service['@_msid'])!;
+            const instance = /^36(\d\d)$/.exec(ms.port || '')?.[1];
+            server = `https://${ms.host}:443${instance || '00'}`;
+            notes.push(instance
+                ? `URL derived from message server ${ms.host}`
+                : `URL derived from message server ${ms.host}, HTTPS port guessed`);
+        } else if (service['@_server']) {
+            const target = LandscapeImportService.parseGuiServer(String(service['@_server']));
+            if (!target) {
+                return undefined;
+            }
+            server = `https://${target.host}:443${target.instance}`;
+            notes.push(`URL derived from instance ${target.instance}`);
+            if (target.viaRouter) {
+                notes.push('Reached through a SAProuter in SAP Logon, check that the URL is reachable');
+            }
+        }
+
+        if (!server) {
+            return undefined;
+        }
+
+        return {
+            profile: {
+                name: systemId && !description.toUpperCase().includes(systemId.toUpperCase())
+                    ? `${systemId} ${description}`.trim()
+                    : description || systemId || new URL(server).hostname,
+                server,
+                client: LandscapeImportService.normalizeClient(client, notes),
+                user: '',
+                useStrictSSL: true,
+                authType: 'basic'
+            },
+            source: description,
+            notes
+        };
+    }
+
+    /**
+     * Client padded to 3 digits ("1" becomes "001"). Empty when missing or
+     * invalid, with a note, as a profile needs exactly 3 digits.
+     */
+    private static normalizeClient(client: string, notes: string[]): string {
+        if (!client) {
+            notes.push('No client');
+            return '';
+        }
+        const padded = client.padStart(3, '0');
+        if (!/^\d{3}$/.test(padded)) {
+            notes.push(`Client "${client}" is not 3 digits and was left empty`);
+            return '';
+        }
+        return padded;
+    }
+
+    /**
+     * Host and instance number from a SAP GUI server string:
+     * "host:3200", "host 00" or a router string "/H/router/S/3299/H/host/S/3200"
+     */
+    private static parseGuiServer(value: string): { host: string; instance: string; viaRouter: boolean } | undefined {
+        if (value.startsWith('/H/')) {
+            const hosts = Array.from(value.matchAll(/\/H\/([^/]+)(?:\/S\/(\d+))?/g));
+            const last = hosts[hosts.length - 1];
+            if (!last) {
+                return undefined;
+            }
+            return {
+                host: last[1],
+                instance: /^32(\d\d)$/.exec(last[2] || '')?.[1] || '00',
+                viaRouter: hosts.length > 1
+            };
+        }
+
+        const match = /^([^\s:]+)(?::32(\d\d)|\s+(\d\d))?$/.exec(value.trim());
+        if (!match) {
+            return undefined;
+        }
+        return { host: match[1], instance: match[2] || match[3] || '00', viaRouter: false };
+    }
+
+    private static splitCsvLine(line: string, separator: string): string[] {
+        const cells: string[] = [];
+        let current = '';
+        let quoted = false;
+        for (let i = 0; i < line.length; i++) {
+            const char = line[i];
+            if (char === '"') {
+                if (quoted && line[i + 1] === '"') {
+                    current += '"';
+                    i++;
+                } else {
+                    quoted = !quoted;
+                }
+            } else if (char === separator && !quoted) {
+                cells.push(current);
+                current = '';
+            } else {
+                current += char;
+            }
+        }
+        cells.push(current);
+        return cells;
+    }
+
+    /**
+     * The same name twice (e.g. one system in two SAP Logon folders) gets a number
+     */
+    private static uniqueNames(proposals: ProfileProposal[]): ProfileProposal[] {
+        const seen = new Map<string, number>();
+        for (const proposal of proposals) {
+            const count = (seen.get(proposal.profile.name) || 0) + 1;
+            seen.set(proposal.profile.name, count);
+            if (count > 1) {
+                proposal.profile.name = `${proposal.profile.name} (${count})`;
+            }
+        }
+        return proposals;
+    }
+}
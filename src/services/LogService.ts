@@ -0,0 +1,274 @@
+import * as vscode from 'vscode';
+
+/**
+ * bspManager.logLevel: "error" logs failed requests, "info" every request,
+ * "debug" also the (redacted) request and response bodies
+ */
+export type LogLevel = 'off' | 'error' | 'info' | 'debug';
+
+const LEVELS: LogLevel[] = ['off', 'error', 'info', 'debug'];
+
+// Requests kept in memory for the trace export
+const MAX_TRACE_ENTRIES = 500;
+// Longer bodies are cut in the log and in the trace
+const MAX_BODY_LENGTH = 16 * 1024;
+
+const REDACTED = '[redacted]';
+const SECRET_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-csrf-token'];
+const SECRET_NAMES = /pass(word|phrase)?|secret|token|^code$|assertion|sap-password/i;
+
+export interface HttpExchange {
+    profile?: string;
+    method: string;
+    url: string;
+    requestHeaders: Record<string, unknown>;
+    requestBody?: unknown;
+    /** 0 when no response was received, e.g. network errors */
+    status: number;
+    statusText?: string;
+    responseHeaders?: Record<string, unknown>;
+    responseBody?: unknown;
+    startedAt: number;
+    durationMs: number;
+    error?: string;
+}
+
+interface HarHeader {
+    name: string;
+    value: string;
+}
+
+interface HarEntry {
+    startedDateTime: string;
+    time: number;
+    request: {
+        method: string;
+        url: string;
+        httpVersion: string;
+        headers: HarHeader[];
+        queryString: HarHeader[];
+        postData?: { mimeType: string; text: string };
+        headersSize: number;
+        bodySize: number;
+    };
+    response: {
+        status: number;
+        statusText: string;
+        httpVersion: string;
+        headers: HarHeader[];
+        content: { size: number; mimeType: string; text?: string };
+        redirectURL: string;
+        headersSize: number;
+        bodySize: number;
+    };
+    cache: Record<string, never>;
+    timings: { send: number; wait: number; receive: number };
+    comment?: string;
+}
+
+/**
+ * "BSP Manager" output channel and the in-memory trace of the last SAP
+ * requests. Credentials, cookies and CSRF tokens never reach either of them.
+ */
+export class LogService {
+    private static channel: vscode.OutputChannel | undefined;
+    private static entries: HarEntry[] = [];
+
+    static show(): void {
+        LogService.output().show(true);
+    }
+
+    static error(message: string, error?: unknown): void {
+        LogService.write('error', 'ERROR', error ? `${message}: ${LogService.describe(error)}` : message);
+    }
+
+    static warn(message: string, error?: unknown): void {
+        LogService.write('error', 'WARN', error ? `${message}: ${LogService.describe(error)}` : message);
+    }
+
+    static info(message: string): void {
+        LogService.write('info', 'INFO', message);
+    }
+
+    /**
+     * Log one request and keep it for the trace export
+     */
+    static logExchange(exchange: HttpExchange): void {
+        const entry = LogService.toHarEntry(exchange);
+        LogService.entries.push(entry);
+        if (LogService.entries.length > MAX_TRACE_ENTRIES) {
+            LogService.entries.shift();
+        }
+
+        const failed = exchange.status === 0 || exchange.status >= 400;
+        const line = `${exchange.profile ? `[${exchange.profile}] ` : ''}${exchange.method.toUpperCase()} ${entry.request.url} `
+            + `${exchange.status || exchange.error || 'no response'} (${exchange.durationMs} ms)`;
+        LogService.write(failed ? 'error' : 'info', failed ? 'ERROR' : 'HTTP', line);
+
+        if (LogService.enabled('debug')) {
+            if (entry.request.postData) {
+                LogService.output().appendLine(`  > ${entry.request.postData.text}`);
+            }
+            if (entry.response.content.text) {
+                LogService.output().appendLine(`  < ${entry.response.content.text}`);
+            }
+        }
+    }
+
+    /**
+     * Trace of the recorded requests in HAR 1.2 format
+     */
+    static exportTrace(creatorVersion: string): object {
+        return {
+            log: {
+                version: '1.2',
+                creator: { name: 'BSP Manager', version: creatorVersion },
+                pages: [],
+                entries: LogService.entries
+            }
+        };
+    }
+
+    static get traceSize(): number {
+        return LogService.entries.length;
+    }
+
+    static dispose(): void {
+        LogService.channel?.dispose();
+        LogService.channel = undefined;
+        LogService.entries = [];
+    }
+
+    /**
+     * Text with password, secret and token values replaced, for form data,
+     * JSON and query strings
+     */
+    static redact(text: string): string {
+        return text
+            .replace(/("([^"]*)"\s*:\s*)"[^"]*"/g, (match, prefix, name) => SECRET_NAMES.test(name) ? `${prefix}"${REDACTED}"` : match)
+            .replace(/(^|[?&])([^=&\s]+)=([^&\s]*)/g, (match, sep, name) => SECRET_NAMES.test(name) ? `${sep}${name}=${REDACTED}` : match);
+    }
+
+    // ===== Private Helper Methods =====
+
+    private static output(): vscode.OutputChannel {
+        if (!LogService.channel) {
+            LogService.channel = vscode.window.createOutputChannel('BSP Manager');
+        }
+        return LogService.channel;
+    }
+
+    private static enabled(level: LogLevel): boolean {
+        const configured = vscode.workspace.getConfiguration('bspManager').get<LogLevel>('logLevel', 'info');
+        return LEVELS.indexOf(level) <= LEVELS.indexOf(configured) && configured !== 'off';
+    }
+
+    private static write(level: LogLevel, tag: string, message: string): void {
+        if (LogService.enabled(level)) {
+            LogService.output().appendLine(`${new Date().toISOString()} ${tag} ${message}`);
+        }
+    }
+
+    private static describe(error: unknown): string {
+        return error instanceof Error ? error.message : String(error);
+    }
+
+    private static toHarEntry(exchange: HttpExchange): HarEntry {
+        const url = LogService.redactUrl(exchange.url);
+        const requestHeaders = LogService.toHarHeaders(exchange.requestHeaders);
+        const responseHeaders = LogService.toHarHeaders(exchange.responseHeaders || {});
+        const requestBody = LogService.bodyText(exchange.requestBody);
+        const responseBody = LogService.bodyText(exchange.responseBody);
+
+        let queryString: HarHeader[] = [];
+        try {
+            queryString = Array.from(new URL(url).searchParams.entries()).map(([name, value]) => ({ name, value }));
+        } catch (error) {
+            // Relative URL, no query
+        }
+
+        return {
+            startedDateTime: new Date(exchange.startedAt).toISOString(),
+            time: exchange.durationMs,
+            request: {
+                method: exchange.method.toUpperCase(),
+                url,
+                httpVersion: 'HTTP/1.1',
+                headers: requestHeaders,
+                queryString,
+                postData: requestBody !== undefined
+                    ? { mimeType: LogService.header(requestHeaders, 'content-type'), text: requestBody }
+                    : undefined,
+                headersSize: -1,
+                bodySize: requestBody?.length ?? 0
+            },
+            response: {
+                status: exchange.status,
+                statusText: exchange.statusText || '',
+                httpVersion: 'HTTP/1.1',
+                headers: responseHeaders,
+                content: {
+                    size: responseBody?.length ?? 0,
+                    mimeType: LogService.header(responseHeaders, 'content-type'),
+                    text: responseBody
+                },
+                redirectURL: '',
+                headersSize: -1,
+                bodySize: responseBody?.length ?? -1
+            },
+            cache: {},
+            timings: { send: 0, wait: exchange.durationMs, receive: 0 },
+            comment: [exchange.profile && `Profile ${exchange.profile}`, exchange.error].filter(Boolean).join(' - ') || undefined
+        };
+    }
+
+    private static toHarHeaders(headers: Record<string, unknown>): HarHeader[] {
+        const result: HarHeader[] = [];
+        for (const [name, value] of Object.entries(headers)) {
+            if (value === undefined || value === null || typeof value === 'object' && !Array.isArray(value)) {
+                continue;
+            }
+            const values = Array.isArray(value) ? value : [value];
+            for (const single of values) {
+                const secret = SECRET_HEADERS.includes(name.toLowerCase());
+                // "Fetch" is the request for a token, not a token
+                const keep = name.toLowerCase() === 'x-csrf-token' && /^(fetch|required)$/i.test(String(single));
+                result.push({ name, value: secret && !keep ? REDACTED : String(single) });
+            }
+        }
+        return result;
+    }
+
+    private static header(headers: HarHeader[], name: string): string {
+        return headers.find(h => h.name.toLowerCase() === name)?.value || '';
+    }
+
+    private static redactUrl(url: string): string {
+        const [base, query] = url.split('?', 2);
+        return query === undefined ? base : `${base}?${LogService.redact(query)}`;
+    }
+
+    private static bodyText(body: unknown): string | undefined {
+        if (body === undefined || body === null || body === '') {
+            return undefined;
+        }
+
+        let text: string;
+        if (Buffer.isBuffer(body) || body instanceof ArrayBuffer) {
+            return `[binary, ${body.byteLength} bytes]`;
+        } else if (typeof body === 'string') {
+            text = body;
+        } else {
+            try {
+                text = JSON.stringify(body);
+            } catch (error) {
+                text = String(body);
+            }
+        }
+
+        text = LogService.redact(text);
+        return text.length > MAX_BODY_LENGTH
+            ? `${text.substring(0, MAX_BODY_LENGTH)}... [${text.length - MAX_BODY_LENGTH} more characters]`
+            : text;
+    }
+}
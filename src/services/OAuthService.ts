@@ -0,0 +1,247 @@
+import * as vscode from 'vscode';
+import * as http from 'http';
+import * as crypto from 'crypto';
+import axios from 'axios';
+import { ConfigService } from './ConfigService';
+import { CancelledError, OAuthGrantType, SapConnection, SapConnectionConfig } from './SapConnection';
+import { LogService } from './LogService';
+
+// Tokens are refreshed this long before they expire
+const EXPIRY_MARGIN_MS = 60 * 1000;
+// Time the user has to finish the browser login
+const LOGIN_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * The parts of a BTP ABAP environment service key used for the login
+ */
+export interface ServiceKey {
+    /** ABAP system URL */
+    url: string;
+    uaa: {
+        /** XSUAA URL that issues the tokens */
+        url: string;
+        clientid: string;
+        clientsecret: string;
+    };
+}
+
+export interface OAuthTokens {
+    accessToken: string;
+    refreshToken?: string;
+    /** Epoch milliseconds */
+    expiresAt: number;
+}
+
+/**
+ * OAuth 2.0 login for SAP BTP ABAP environment profiles, based on the
+ * service key of the system. Tokens are cached and refreshed in SecretStorage.
+ */
+export class OAuthService {
+    private configService: ConfigService;
+
+    constructor(configService: ConfigService) {
+        this.configService = configService;
+    }
+
+    /**
+     * Parse and check a service key JSON as copied from the BTP cockpit
+     */
+    static parseServiceKey(text: string): ServiceKey {
+        let json: any;
+        try {
+            json = JSON.parse(text);
+        } catch (error) {
+            throw new Error('The service key is not valid JSON');
+        }
+
+        // Keys copied from the cockpit may be wrapped in "credentials"
+        const key = json.credentials || json;
+        if (!key.url || !key.uaa?.url || !key.uaa?.clientid || !key.uaa?.clientsecret) {
+            throw new Error('The service key needs url, uaa.url, uaa.clientid and uaa.clientsecret');
+        }
+
+        return {
+            url: key.url,
+            uaa: {
+                url: key.uaa.url,
+                clientid: key.uaa.clientid,
+                clientsecret: key.uaa.clientsecret
+            }
+        };
+    }
+
+    /**
+     * Access token for the profile: the cached one while it is valid, else a
+     * refreshed one, else a new login. Token requests use the profile's proxy.
+     * `renew` skips the cached token, e.g. after the server rejected it.
+     */
+    async getAccessToken(profile: SapConnectionConfig, token?: vscode.CancellationToken, renew: boolean = false): Promise<string> {
+        const serviceKeyText = await this.configService.getServiceKey(profile.name);
+        if (!serviceKeyText) {
+            throw new Error(`No service key stored for profile "${profile.name}". Please edit the profile.`);
+        }
+        const serviceKey = OAuthService.parseServiceKey(serviceKeyText);
+        const grantType = profile.oauthGrantType || 'authorization_code';
+
+        const cached = await this.configService.getOAuthTokens(profile.name);
+        if (cached && !renew && cached.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+            return cached.accessToken;
+        }
+
+        let tokens: OAuthTokens | undefined;
+        if (cached?.refreshToken) {
+            try {
+                tokens = await this.requestToken(serviceKey, {
+                    grant_type: 'refresh_token',
+                    refresh_token: cached.refreshToken
+                }, profile);
+            } catch (error) {
+                // Refresh token expired or revoked: log in again
+                LogService.warn(`Token refresh for profile "${profile.name}" failed`, error);
+            }
+        }
+
+        if (!tokens) {
+            tokens = await this.login(serviceKey, grantType, profile, token);
+        }
+
+        await this.configService.storeOAuthTokens(profile.name, tokens);
+        return tokens.accessToken;
+    }
+
+    /**
+     * Run the login flow without caching, e.g. to test a service key.
+     * The connection settings provide the proxy for the token requests.
+     */
+    async login(
+        serviceKey: ServiceKey,
+        grantType: OAuthGrantType,
+        connection: SapConnectionConfig,
+        token?: vscode.CancellationToken
+    ): Promise<OAuthTokens> {
+        if (grantType === 'client_credentials') {
+            return this.requestToken(serviceKey, { grant_type: 'client_credentials' }, connection);
+        }
+
+        const { code, redirectUri } = await this.authorize(serviceKey, token);
+        return this.requestToken(serviceKey, {
+            grant_type: 'authorization_code',
+            code,
+            redirect_uri: redirectUri
+        }, connection);
+    }
+
+    // ===== Private Helper Methods =====
+
+    private async requestToken(
+        serviceKey: ServiceKey,
+        params: Record<string, string>,
+        connection: SapConnectionConfig
+    ): Promise<OAuthTokens> {
+        const tokenUrl = `${serviceKey.uaa.url.replace(/\/$/, '')}/oauth/token`;
+        try {
+            const response = await axios.post(
+                tokenUrl,
+                new URLSearchParams(params).toString(),
+                {
+                    ...SapConnection.createAgents(connection, tokenUrl),
+                    auth: {
+                        username: serviceKey.uaa.clientid,
+                        password: serviceKey.uaa.clientsecret
+                    },
+                    headers: {
+                        'Content-Type': 'application/x-www-form-urlencoded',
+                        'Accept': 'application/json'
+                    }
+                }
+            );
+
+            return {
+                accessToken: response.data.access_token,
+                refreshToken: response.data.refresh_token,
+                expiresAt: Date.now() + (Number(response.data.expires_in) || 3600) * 1000
+            };
+        } catch (error: any) {
+            const reason = error.response?.data?.error_description || error.response?.data?.error || error.message;
+            throw new Error(`OAuth token request failed: ${reason}`);
+        }
+    }
+
+    /**
+     * Authorization code flow: opens the XSUAA login in the browser and waits
+     * for the redirect to a local callback server
+     */
+    private async authorize(serviceKey: ServiceKey, token?: vscode.CancellationToken): Promise<{ code: string; redirectUri: string }> {
+        const state = crypto.randomBytes(16).toString('hex');
+        let server: http.Server | undefined;
+        let timer: NodeJS.Timeout | undefined;
+
+        const codePromise = new Promise<{ code: string; redirectUri: string }>((resolve, reject) => {
+            let redirectUri = '';
+
+            server = http.createServer((req, res) => {
+                const url = new URL(req.url || '/', redirectUri);
+                if (url.pathname !== '/callback') {
+                    res.writeHead(404);
+                    res.end();
+                    return;
+                }
+
+                // Requests that do not belong to this sign-in are answered, not followed;
+                // the real redirect may still come until the timeout
+                if (url.searchParams.get('state') !== state) {
+                    res.writeHead(400, { 'Content-Type': 'text/html; charset=utf-8' });
+                    res.end('<html><body><h3>Invalid sign-in response.</h3></body></html>');
+                    return;
+                }
+
+                const code = url.searchParams.get('code');
+                const error = url.searchParams.get('error_description') || url.searchParams.get('error');
+
+                res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+                res.end(code
+                    ? '<html><body><h3>Signed in to SAP BTP. You can close this tab and return to VS Code.</h3></body></html>'
+                    : '<html><body><h3>Sign-in failed. Please return to VS Code.</h3></body></html>');
+
+                if (code) {
+                    resolve({ code, redirectUri });
+                } else {
+                    reject(new Error(`Sign-in failed: ${error || 'no authorization code received'}`));
+                }
+            });
+
+            server.on('error', reject);
+            server.listen(0, '127.0.0.1', () => {
+                const port = (server!.address() as { port: number }).port;
+                // The address the server listens on; localhost may resolve to ::1
+                redirectUri = `http://127.0.0.1:${port}/callback`;
+
+                const authorizeUrl = `${serviceKey.uaa.url.replace(/\/$/, '')}/oauth/authorize?` + new URLSearchParams({
+                    response_type: 'code',
+                    client_id: serviceKey.uaa.clientid,
+                    redirect_uri: redirectUri,
+                    state
+                }).toString();
+                vscode.env.openExternal(vscode.Uri.parse(authorizeUrl));
+            });
+        });
+
+        try {
+            return await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Waiting for SAP BTP sign-in in the browser...',
+                cancellable: true
+            }, (_progress, progressToken) => new Promise<{ code: string; redirectUri: string }>((resolve, reject) => {
+                timer = setTimeout(() => reject(new Error('Sign-in timed out')), LOGIN_TIMEOUT_MS);
+                const onCancel = () => reject(new CancelledError('Sign-in cancelled'));
+                progressToken.onCancellationRequested(onCancel);
+                token?.onCancellationRequested(onCancel);
+
+                codePromise.then(resolve, reject);
+            }));
+        } finally {
+            clearTimeout(timer);
+            server?.close();
+        }
+    }
+}
@@ -0,0 +1,185 @@
+import { ProfileProtection, SapAuthType, SapProfile } from './SapConnection';
+
+const FORMAT = 'bsp-manager-profiles';
+// Increase when the file layout changes; older files must stay readable
+const CURRENT_VERSION = 1;
+
+const AUTH_TYPES: SapAuthType[] = ['basic', 'certificate', 'oauth'];
+const PROTECTIONS: ProfileProtection[] = ['open', 'confirm', 'readOnly'];
+
+/**
+ * File written by "Export Profiles". Never contains passwords, passphrases,
+ * service keys or tokens; those stay in the SecretStorage of each machine.
+ */
+export interface ProfileSetFile {
+    format: typeof FORMAT;
+    version: number;
+    exportedAt: string;
+    profiles: SapProfile[];
+}
+
+/**
+ * Reads and writes profile sets, so a team can share its DEV/QAS/PRD profiles
+ */
+export class ProfileSetService {
+
+    static serialize(profiles: SapProfile[]): string {
+        const file: ProfileSetFile = {
+            format: FORMAT,
+            version: CURRENT_VERSION,
+            exportedAt: new Date().toISOString(),
+            profiles: profiles.map(p => ProfileSetService.sanitize(p))
+        };
+        return JSON.stringify(file, null, 2);
+    }
+
+    /**
+     * Parse and validate a profile set. All problems are reported at once.
+     */
+    static parse(text: string): SapProfile[] {
+        let json: any;
+        try {
+            json = JSON.parse(text);
+        } catch (error) {
+            throw new Error('The file is not valid JSON');
+        }
+
+        if (!json || json.format !== FORMAT) {
+            throw new Error(`Not a BSP Manager profile file (expected "format": "${FORMAT}")`);
+        }
+        if (!Number.isInteger(json.version) || json.version < 1) {
+            throw new Error('The profile file has no valid "version"');
+        }
+        if (json.version > CURRENT_VERSION) {
+            throw new Error(`The profile file was created by a newer BSP Manager (version ${json.version}). Please update the extension.`);
+        }
+        if (!Array.isArray(json.profiles)) {
+            throw new Error('The profile file has no "profiles" list');
+        }
+        return ProfileSetService.parseProfiles(json.profiles, 'The profile file is invalid');
+    }
+
+    /**
+     * Validate a list of profile entries, e.g. the profiles of a profile set
+     * or of a workspace's bsp-manager.json. Throws with all problems at once.
+     * Shared project files may leave the user out, every developer sets their own.
+     */
+    static parseProfiles(entries: unknown[], errorTitle: string, options: { userOptional?: boolean } = {}): SapProfile[] {
+        const problems: string[] = [];
+        const names = new Set<string>();
+        const profiles: SapProfile[] = [];
+
+        entries.forEach((entry: any, index: number) => {
+            const label = `Profile ${index + 1}${typeof entry?.name === 'string' && entry.name ? ` ("${entry.name}")` : ''}`;
+            const errors = ProfileSetService.validate(entry, !!options.userOptional);
+            if (!errors.length && names.has(entry.name)) {
+                errors.push('name is used twice in the file');
+            }
+            if (errors.length) {
+                problems.push(`${label}: ${errors.join(', ')}`);
+                return;
+            }
+            names.add(entry.name);
+            profiles.push(ProfileSetService.sanitize(entry));
+        });
+
+        if (problems.length) {
+            throw new Error(`${errorTitle}:\n${problems.join('\n')}`);
+        }
+        return profiles;
+    }
+
+    /**
+     * Only the known profile fields, so secrets or foreign fields never pass through
+     */
+    static sanitize(entry: any): SapProfile {
+        const profile: SapProfile = {
+            name: entry.name.trim(),
+            server: entry.server.replace(/\/+$/, ''),
+            client: entry.client || '',
+            user: (entry.user || '').toUpperCase(),
+            useStrictSSL: entry.useStrictSSL ?? true
+        };
+        const optional: Array<keyof SapProfile> = [
+            'authType', 'bspNamePatterns', 'certificatePath', 'keyPath',
+            'oauthGrantType', 'proxyUrl', 'proxyUser', 'proxyBypass', 'protection', 'language'
+        ];
+        for (const field of optional) {
+            if (entry[field] !== undefined) {
+                (profile as any)[field] = entry[field];
+            }
+        }
+        // A password typed into the proxy URL is not shared either
+        if (profile.proxyUrl) {
+            try {
+                const url = new URL(profile.proxyUrl);
+                if (url.password) {
+                    url.password = '';
+                    profile.proxyUrl = url.toString().replace(/\/$/, '');
+                }
+            } catch (error) {
+                // Kept as entered, the connection reports invalid URLs
+            }
+        }
+        return profile;
+    }
+
+    // ===== Private Helper Methods =====
+
+    private static validate(entry: any, userOptional: boolean): string[] {
+        if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+            return ['must be an object'];
+        }
+
+        const errors: string[] = [];
+        const isString = (value: unknown) => typeof value === 'string';
+        const optionalString = (field: string) => {
+            if (entry[field] !== undefined && !isString(entry[field])) {
+                errors.push(`${field} must be a string`);
+            }
+        };
+
+        const authType = entry.authType ?? 'basic';
+        if (!AUTH_TYPES.includes(authType)) {
+            errors.push(`authType must be one of ${AUTH_TYPES.join(', ')}`);
+        }
+        if (!isString(entry.name) || !entry.name.trim()) {
+            errors.push('name is required');
+        }
+        if (!isString(entry.server) || !/^https?:\/\/[^\s/]+/i.test(entry.server)) {
+            errors.push('server must be an http(s) URL');
+        }
+        if (authType !== 'oauth') {
+            if (!isString(entry.client) || !/^\d{3}$/.test(entry.client)) {
+                errors.push('client must be 3 digits');
+            }
+            if (userOptional) {
+                optionalString('user');
+            } else if (!isString(entry.user) || !entry.user.trim()) {
+                errors.push('user is required');
+            }
+        } else {
+            optionalString('client');
+            optionalString('user');
+        }
+        if (entry.useStrictSSL !== undefined && typeof entry.useStrictSSL !== 'boolean') {
+            errors.push('useStrictSSL must be true or false');
+        }
+        if (entry.oauthGrantType !== undefined && !['authorization_code', 'client_credentials'].includes(entry.oauthGrantType)) {
+            errors.push('oauthGrantType must be authorization_code or client_credentials');
+        }
+        if (entry.protection !== undefined && !PROTECTIONS.includes(entry.protection)) {
+            errors.push(`protection must be one of ${PROTECTIONS.join(', ')}`);
+        }
+        if (entry.language !== undefined && (!isString(entry.language) || !/^[A-Za-z]{1,2}$/.test(entry.language))) {
+            errors.push('language must be a language key like EN or TR');
+        }
+        ['certificatePath', 'keyPath', 'proxyUrl', 'proxyUser'].forEach(optionalString);
+        for (const field of ['bspNamePatterns', 'proxyBypass']) {
+            if (entry[field] !== undefined && (!Array.isArray(entry[field]) || !entry[field].every(isString))) {
+                errors.push(`${field} must be a list of strings`);
+            }
+        }
+        return errors;
+    }
+}
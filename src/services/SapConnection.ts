@@ -1,4 +1,28 @@
-import axios, { AxiosInstance, AxiosRequestConfig } from "axios";
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as https from "https";
+import axios, {
+  AxiosInstance,
+  AxiosRequestConfig,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from "axios";
+import { HttpProxyAgent } from "http-proxy-agent";
+import { HttpsProxyAgent } from "https-proxy-agent";
+import { AdtError } from "./AdtError";
+import { LogService } from "./LogService";
+
+/** Basic auth with user and password, an X.509 client certificate, or OAuth (SAP BTP) */
+export type SapAuthType = "basic" | "certificate" | "oauth";
+
+/** OAuth flow: browser login as a named user, or a technical client */
+export type OAuthGrantType = "authorization_code" | "client_credentials";
+
+/**
+ * Guardrail for writes: open, confirm (typed confirmation of the profile
+ * name before each deploy) or readOnly (no write ever reaches the server)
+ */
+export type ProfileProtection = "open" | "confirm" | "readOnly";
 
 export interface SapProfile {
   name: string;
@@ -6,20 +30,88 @@ export interface SapProfile {
   client: string;
   user: string;
   useStrictSSL: boolean;
+  /** BSP applications listed for this profile, e.g. Z*, Y*, /UISAP/* or * for all */
+  bspNamePatterns?: string[];
+  /** Defaults to basic */
+  authType?: SapAuthType;
+  /** PFX/P12 or PEM file with the client certificate */
+  certificatePath?: string;
+  /** PEM private key, when it is not part of the certificate file */
+  keyPath?: string;
+  /** OAuth only, defaults to authorization_code. The service key is kept in SecretStorage. */
+  oauthGrantType?: OAuthGrantType;
+  /** HTTP proxy, e.g. http://proxy.corp:8080. Without it VS Code's http.proxy is used. */
+  proxyUrl?: string;
+  /** Proxy user; the password is kept in SecretStorage */
+  proxyUser?: string;
+  /** Hosts reached without the proxy, e.g. localhost, *.corp.local */
+  proxyBypass?: string[];
+  /** Defaults to open */
+  protection?: ProfileProtection;
+  /**
+   * Logon language sent as sap-language, e.g. EN or TR. It decides the master
+   * language of new BSP applications, the language of transport texts and
+   * descriptions and of ADT messages. Without it the user's default applies.
+   */
+  language?: string;
 }
 
+// ADT services that take a POST but do not change anything
+const READ_ONLY_POSTS = ["/sap/bc/adt/cts/transportchecks", "/sap/bc/adt/repository/nodestructure"];
+
 export interface SapConnectionConfig extends SapProfile {
-  password: string;
+  /** Basic auth only */
+  password?: string;
+  /** Passphrase of the certificate's private key */
+  passphrase?: string;
+  /** OAuth bearer token */
+  accessToken?: string;
+  proxyPassword?: string;
 }
 
+/**
+ * Thrown when an operation was stopped through its cancellation token
+ */
+export class CancelledError extends Error {
+  constructor(message: string = "Operation cancelled") {
+    super(message);
+    this.name = "CancelledError";
+  }
+}
+
+// Request config with the bookkeeping of the interceptors
+type TrackedRequest = InternalAxiosRequestConfig & {
+  _replayed?: boolean;
+  _slot?: boolean;
+  _startedAt?: number;
+};
+
 export class SapConnection {
   private axiosInstance: AxiosInstance;
   private csrfToken: string | null = null;
   private config: SapConnectionConfig;
   private cookies: string[] = [];
+  private readOnly = false;
+  // Shared by requests that fail at the same time
+  private sessionRenewal: Promise<string> | null = null;
+  // Set by the first successful response; a 401 before that is a wrong logon
+  private sessionEstablished = false;
+  // Parallel requests to the system, see bspManager.maxConcurrentRequests
+  private maxConcurrentRequests: number;
+  private activeRequests = 0;
+  private waitingRequests: Array<() => void> = [];
+  // OAuth only: new access token when the server rejects the current one
+  private renewAccessToken?: () => Promise<string>;
 
-  constructor(config: SapConnectionConfig) {
+  constructor(config: SapConnectionConfig, renewAccessToken?: () => Promise<string>) {
     this.config = config;
+    this.renewAccessToken = renewAccessToken;
+    this.maxConcurrentRequests = Math.max(
+      1,
+      vscode.workspace
+        .getConfiguration("bspManager")
+        .get<number>("maxConcurrentRequests", 6),
+    );
 
     // Ensure server URL ends without slash
     const baseURL = config.server.endsWith("/")
@@ -28,20 +120,26 @@ export class SapConnection {
 
     this.axiosInstance = axios.create({
       baseURL,
-      auth: {
-        username: config.user,
-        password: config.password,
-      },
-      headers: {
-        Accept: "application/xml, application/json, text/plain, */*",
-        "sap-client": config.client,
-      },
-      // Handle self-signed certificates
-      httpsAgent: config.useStrictSSL
+      // With a client certificate or OAuth the user comes from the certificate or token
+      auth: config.authType === "certificate" || config.authType === "oauth"
         ? undefined
-        : new (require("https").Agent)({
-            rejectUnauthorized: false,
-          }),
+        : {
+            username: config.user,
+            password: config.password || "",
+          },
+      // BTP ABAP environment systems have no client, the token selects the tenant
+      headers: config.authType === "oauth"
+        ? {
+            Accept: "application/xml, application/json, text/plain, */*",
+            Authorization: `Bearer ${config.accessToken}`,
+            ...SapConnection.languageHeaders(config),
+          }
+        : {
+            Accept: "application/xml, application/json, text/plain, */*",
+            "sap-client": config.client,
+            ...SapConnection.languageHeaders(config),
+          },
+      ...SapConnection.createAgents(config, baseURL),
     });
 
     // Request Interceptor: Add Cookies
@@ -52,9 +150,19 @@ export class SapConnection {
         return req;
     });
 
+    // Request Interceptor: Wait for a free slot (registered last, so it runs first
+    // and the cookies are set from the session as it is when the request is sent)
+    this.axiosInstance.interceptors.request.use(async (req: TrackedRequest) => {
+        await this.acquireSlot();
+        req._slot = true;
+        req._startedAt = Date.now();
+        return req;
+    });
+
     // Response Interceptor: Capture Cookies & Error Handling
     this.axiosInstance.interceptors.response.use(
       (response) => {
+          this.releaseSlot(response.config);
           // Capture cookies
           const setCookie = response.headers['set-cookie'];
           if (setCookie) {
@@ -64,9 +172,16 @@ export class SapConnection {
                  this.updateCookies([setCookie]);
               }
           }
+          this.sessionEstablished = true;
+          this.logExchange(response.config, response);
           return response;
       },
-      (error) => {
+      async (error) => {
+        this.releaseSlot(error.config);
+        if (axios.isCancel(error)) {
+          throw new CancelledError();
+        }
+        this.logExchange(error.config, error.response, error.message);
         if (error.response) {
             // Check for cookies even in error responses (e.g. 401 might set a cookie? unlikely but good practice)
            const setCookie = error.response.headers['set-cookie'];
@@ -78,26 +193,247 @@ export class SapConnection {
                 }
            }
 
-          const status = error.response.status;
-          if (status === 401) {
-            throw new Error(
-              "Authentication failed. Please check your credentials.",
-            );
-          } else if (status === 403) {
-            throw new Error(
-              "Access forbidden. Please check user authorizations.",
-            );
-          } else if (status === 404) {
-            throw new Error(
-              "Resource not found. Please check if ADT services are activated.",
+          // Expired session or CSRF token: new session and token, then the request once more
+          const request = error.config as TrackedRequest | undefined;
+          if (request && !request._replayed && this.isSessionFailure(error.response)) {
+            request._replayed = true;
+            const usedToken = request.headers?.get("X-CSRF-Token");
+            // Only a 401 says the bearer token itself is no longer accepted
+            const token = await this.renewSession(
+              typeof usedToken === "string" ? usedToken : undefined,
+              error.response.status === 401
             );
+            if (SapConnection.isModifying(request.method)) {
+              request.headers.set("X-CSRF-Token", token);
+            }
+            if (this.config.authType === "oauth") {
+              request.headers.set("Authorization", `Bearer ${this.config.accessToken}`);
+            }
+            return this.axiosInstance.request(request);
           }
+
+          throw AdtError.fromResponse(error.response, SapConnection.isCsrfFailure(error.response));
+        }
+        if (axios.isAxiosError(error)) {
+          throw AdtError.fromNetworkError(error, this.config.server);
         }
         throw error;
       },
     );
   }
 
+  private logExchange(request: TrackedRequest | undefined, response?: AxiosResponse, error?: string): void {
+    if (!request) {
+      return;
+    }
+    const startedAt = request._startedAt || Date.now();
+    LogService.logExchange({
+      profile: this.config.name,
+      method: request.method || "get",
+      url: this.axiosInstance.getUri(request),
+      requestHeaders: { ...request.headers },
+      requestBody: request.data,
+      status: response?.status || 0,
+      statusText: response?.statusText,
+      responseHeaders: response ? { ...response.headers } : undefined,
+      responseBody: response?.data,
+      startedAt,
+      durationMs: Date.now() - startedAt,
+      error: response ? undefined : error,
+    });
+  }
+
+  private acquireSlot(): Promise<void> {
+    if (this.activeRequests < this.maxConcurrentRequests) {
+      this.activeRequests++;
+      return Promise.resolve();
+    }
+    // The slot is handed over by releaseSlot, the count stays the same
+    return new Promise((resolve) => this.waitingRequests.push(resolve));
+  }
+
+  private releaseSlot(request?: TrackedRequest): void {
+    if (!request?._slot) {
+      return;
+    }
+    request._slot = false;
+    const next = this.waitingRequests.shift();
+    if (next) {
+      next();
+    } else {
+      this.activeRequests--;
+    }
+  }
+
+  /**
+   * A CSRF token that the server no longer accepts (403 with
+   * "x-csrf-token: Required"), or a 401 for a session that worked before.
+   * A wrong password is not retried, so it does not lock the user sooner.
+   * OAuth connections renew a rejected token even on the first request:
+   * the cached token may have been revoked before it expired.
+   */
+  private isSessionFailure(response: AxiosResponse): boolean {
+    if (response.status === 403) {
+      return SapConnection.isCsrfFailure(response);
+    }
+    return response.status === 401 && (this.sessionEstablished || !!this.renewAccessToken);
+  }
+
+  private static isCsrfFailure(response: AxiosResponse): boolean {
+    return String(response.headers["x-csrf-token"] || "").toLowerCase() === "required";
+  }
+
+  /**
+   * Logon language of the profile; the system keeps it for the whole session
+   */
+  private static languageHeaders(config: SapConnectionConfig): Record<string, string> {
+    return config.language ? { "sap-language": config.language } : {};
+  }
+
+  private static isModifying(method?: string): boolean {
+    return ["post", "put", "delete", "patch"].includes((method || "").toLowerCase());
+  }
+
+  /**
+   * Drops cookies and CSRF token and fetches new ones; with `renewBearer`
+   * OAuth connections get a new access token first. A request that failed
+   * with an older token than the current one just uses the current one.
+   */
+  private async renewSession(usedToken?: string, renewBearer: boolean = false): Promise<string> {
+    if (this.csrfToken && usedToken && this.csrfToken !== usedToken) {
+      return this.csrfToken;
+    }
+    if (!this.sessionRenewal) {
+      this.csrfToken = null;
+      this.cookies = [];
+      this.sessionEstablished = false;
+      this.sessionRenewal = (renewBearer ? this.renewBearerToken() : Promise.resolve())
+        .then(() => this.fetchCsrfToken(false))
+        .finally(() => {
+          this.sessionRenewal = null;
+        });
+    }
+    return this.sessionRenewal;
+  }
+
+  /**
+   * The bearer token may have expired or been revoked with the session.
+   * The config object is shared with read-only views, so it is updated in place.
+   */
+  private async renewBearerToken(): Promise<void> {
+    if (this.config.authType !== "oauth" || !this.renewAccessToken) {
+      return;
+    }
+    this.config.accessToken = await this.renewAccessToken();
+    this.axiosInstance.defaults.headers.Authorization = `Bearer ${this.config.accessToken}`;
+  }
+
+  /**
+   * HTTP(S) agents for a target URL: TLS options (self-signed servers, client
+   * certificates) and the proxy of the profile, else VS Code's http.proxy.
+   * Also used for requests outside SapConnection, e.g. OAuth token requests.
+   */
+  static createAgents(
+    config: SapConnectionConfig,
+    targetUrl: string,
+  ): Pick<AxiosRequestConfig, "httpAgent" | "httpsAgent" | "proxy"> {
+    const tls = SapConnection.tlsOptions(config);
+    const proxyUrl = SapConnection.resolveProxy(config, targetUrl);
+
+    if (!proxyUrl) {
+      return { httpsAgent: tls ? new https.Agent(tls) : undefined };
+    }
+
+    return {
+      httpAgent: new HttpProxyAgent(proxyUrl),
+      httpsAgent: new HttpsProxyAgent(proxyUrl, tls),
+      // The agents tunnel through the proxy, axios must not add its own
+      proxy: false,
+    };
+  }
+
+  /**
+   * Proxy URL (with credentials) for the target, or undefined when the
+   * target is bypassed or no proxy is configured
+   */
+  private static resolveProxy(config: SapConnectionConfig, targetUrl: string): string | undefined {
+    const httpConfig = vscode.workspace.getConfiguration("http");
+    const proxy = config.proxyUrl || httpConfig.get<string>("proxy", "");
+    if (!proxy) {
+      return undefined;
+    }
+
+    const bypass = config.proxyUrl
+      ? config.proxyBypass || []
+      : httpConfig.get<string[]>("noProxy", []);
+    const host = new URL(targetUrl).hostname.toLowerCase();
+    if (bypass.some((pattern) => SapConnection.matchesHost(host, pattern))) {
+      return undefined;
+    }
+
+    let url: URL;
+    try {
+      url = new URL(proxy);
+    } catch (error) {
+      throw new Error(`Invalid proxy URL "${proxy}".`);
+    }
+    if (config.proxyUrl && config.proxyUser) {
+      url.username = config.proxyUser;
+      url.password = config.proxyPassword || "";
+    }
+    return url.toString();
+  }
+
+  /**
+   * Bypass entries: exact host, domain suffix (corp.local, .corp.local,
+   * *.corp.local) or * for all hosts
+   */
+  private static matchesHost(host: string, pattern: string): boolean {
+    const entry = pattern.trim().toLowerCase().replace(/^\*/, "");
+    if (!entry) {
+      return pattern.trim() === "*";
+    }
+    const domain = entry.startsWith(".") ? entry.slice(1) : entry;
+    return host === domain || host.endsWith(`.${domain}`);
+  }
+
+  /**
+   * TLS options for self-signed servers and X.509 client certificates
+   */
+  private static tlsOptions(config: SapConnectionConfig): https.AgentOptions | undefined {
+    if (config.authType !== "certificate") {
+      return config.useStrictSSL ? undefined : { rejectUnauthorized: false };
+    }
+
+    if (!config.certificatePath) {
+      throw new Error(`No client certificate configured for profile "${config.name}".`);
+    }
+
+    const options: https.AgentOptions = {
+      rejectUnauthorized: config.useStrictSSL,
+      passphrase: config.passphrase || undefined,
+    };
+    const certificate = SapConnection.readCertificateFile(config.certificatePath);
+    if (/\.(pfx|p12)$/i.test(config.certificatePath)) {
+      options.pfx = certificate;
+    } else {
+      // PEM: the key is either a separate file or part of the certificate file
+      options.cert = certificate;
+      options.key = config.keyPath
+        ? SapConnection.readCertificateFile(config.keyPath)
+        : certificate;
+    }
+    return options;
+  }
+
+  private static readCertificateFile(filePath: string): Buffer {
+    try {
+      return fs.readFileSync(filePath);
+    } catch (error: any) {
+      throw new Error(`Cannot read certificate file "${filePath}": ${error.message || error}`);
+    }
+  }
+
   // Helper to merge new cookies
   private updateCookies(newCookies: string[]) {
       if (!this.cookies) this.cookies = [];
@@ -112,19 +448,22 @@ export class SapConnection {
   }
 
   /**
-   * Fetches CSRF token required for modifying operations
+   * Fetches CSRF token required for modifying operations.
+   * The token is kept until the server rejects it, see renewSession;
+   * `renewable` is false for the fetch made by renewSession itself.
    */
-  async fetchCsrfToken(): Promise<string> {
+  async fetchCsrfToken(renewable: boolean = true): Promise<string> {
     if (this.csrfToken) {
       return this.csrfToken;
     }
 
     try {
-      const response = await this.axiosInstance.get("/sap/bc/adt/discovery", {
-        headers: {
-          "X-CSRF-Token": "Fetch",
-        },
-      });
+      // The fetch of a running renewal must not wait for that renewal itself
+      const request: AxiosRequestConfig & { _replayed?: boolean } = {
+        headers: { "X-CSRF-Token": "Fetch" },
+        _replayed: !renewable,
+      };
+      const response = await this.axiosInstance.get("/sap/bc/adt/discovery", request);
 
       this.csrfToken = response.headers["x-csrf-token"] || null;
       if (!this.csrfToken) {
@@ -132,18 +471,143 @@ export class SapConnection {
       }
       return this.csrfToken;
     } catch (error) {
+      if (error instanceof AdtError) {
+        throw error;
+      }
       throw new Error(`Failed to fetch CSRF token: ${error}`);
     }
   }
 
+  /**
+   * Blocks all modifying requests (POST, PUT, DELETE), e.g. for dry runs
+   */
+  setReadOnly(readOnly: boolean): void {
+    this.readOnly = readOnly;
+  }
+
+  /**
+   * Connection that shares this session but blocks modifying requests,
+   * for dry runs on a shared connection. The ADT queries sent as POST
+   * (transport check, package tree) still go through.
+   * Every call is forwarded to this connection, so cookies, CSRF token and
+   * session renewal stay in one place. Closing is left to the owner.
+   */
+  readOnlyView(): SapConnection {
+    const guard = (method: string, path: string) => {
+      if (!SapConnection.isReadOnlyQuery(method, path)) {
+        throw new Error(`${method} ${path} blocked: connection is read-only`);
+      }
+    };
+
+    const view = Object.create(SapConnection.prototype) as SapConnection;
+    view.testConnection = (token) => this.testConnection(token);
+    view.get = (path, config) => this.get(path, config);
+    view.getRaw = (path, config) => this.getRaw(path, config);
+    view.post = (path, data, config) => {
+      guard("POST", path);
+      return this.post(path, data, config);
+    };
+    view.put = (path, data, config) => {
+      guard("PUT", path);
+      return this.put(path, data, config);
+    };
+    view.delete = (path, config) => {
+      guard("DELETE", path);
+      return this.delete(path, config);
+    };
+    view.fetchCsrfToken = (renewable) => this.fetchCsrfToken(renewable);
+    view.setReadOnly = () => {};
+    view.readOnlyView = () => view;
+    view.close = async () => {};
+    view.getConfig = () => this.getConfig();
+    return view;
+  }
+
+  /**
+   * Logs off the session on the server and forgets cookies and CSRF token.
+   * Errors are ignored, the server session then simply times out.
+   */
+  async close(): Promise<void> {
+    const cookies = this.cookies;
+    this.cookies = [];
+    this.csrfToken = null;
+    this.sessionEstablished = false;
+    if (cookies.length === 0) {
+      return;
+    }
+
+    try {
+      await this.axiosInstance.get("/sap/public/bc/icf/logoff", {
+        headers: { Cookie: cookies.join("; ") },
+        timeout: 5000,
+      });
+    } catch (error) {
+      LogService.error(`Logoff from ${this.config.server} failed`, error);
+    }
+  }
+
+  /**
+   * ADT queries that are sent as POST (transport check, package tree)
+   */
+  private static isReadOnlyQuery(method: string, path: string): boolean {
+    return method === "POST" && READ_ONLY_POSTS.some((prefix) => path.startsWith(prefix));
+  }
+
+  private assertWritable(method: string, path: string): void {
+    // Read-only profiles stay read-only whatever setReadOnly says. ADT queries
+    // that are sent as POST still work.
+    const isQuery = SapConnection.isReadOnlyQuery(method, path);
+    if (this.config.protection === "readOnly" && !isQuery) {
+      throw new Error(`${method} ${path} blocked: profile "${this.config.name}" is read-only`);
+    }
+    if (this.readOnly && !isQuery) {
+      throw new Error(`${method} ${path} blocked: connection is read-only`);
+    }
+  }
+
+  /**
+   * Converts a VS Code cancellation token into an AbortSignal that can be
+   * passed as `signal` in the request config of get/post/put/delete
+   */
+  static signalFor(token?: vscode.CancellationToken): AbortSignal | undefined {
+    if (!token) {
+      return undefined;
+    }
+
+    const controller = new AbortController();
+    if (token.isCancellationRequested) {
+      controller.abort();
+    } else {
+      const listener = token.onCancellationRequested(() => {
+        listener.dispose();
+        controller.abort();
+      });
+    }
+    return controller.signal;
+  }
+
+  /**
+   * Throws a CancelledError once the token has been cancelled
+   */
+  static throwIfCancelled(token?: vscode.CancellationToken): void {
+    if (token?.isCancellationRequested) {
+      throw new CancelledError();
+    }
+  }
+
   /**
    * Tests the connection to SAP server
    */
-  async testConnection(): Promise<boolean> {
+  async testConnection(token?: vscode.CancellationToken): Promise<boolean> {
     try {
-      await this.axiosInstance.get("/sap/bc/adt/discovery");
+      await this.axiosInstance.get("/sap/bc/adt/discovery", {
+        signal: SapConnection.signalFor(token),
+      });
       return true;
     } catch (error) {
+      if (error instanceof CancelledError) {
+        throw error;
+      }
       return false;
     }
   }
@@ -175,6 +639,7 @@ export class SapConnection {
     data?: any,
     config?: AxiosRequestConfig,
   ): Promise<T> {
+    this.assertWritable("POST", path);
     await this.fetchCsrfToken();
 
     const response = await this.axiosInstance.post<T>(path, data, {
@@ -195,6 +660,7 @@ export class SapConnection {
     data?: any,
     config?: AxiosRequestConfig,
   ): Promise<T> {
+    this.assertWritable("PUT", path);
     await this.fetchCsrfToken();
 
     const response = await this.axiosInstance.put<T>(path, data, {
@@ -207,6 +673,23 @@ export class SapConnection {
     return response.data;
   }
 
+  /**
+   * Makes a DELETE request to SAP
+   */
+  async delete<T = any>(path: string, config?: AxiosRequestConfig): Promise<T> {
+    this.assertWritable("DELETE", path);
+    await this.fetchCsrfToken();
+
+    const response = await this.axiosInstance.delete<T>(path, {
+      ...config,
+      headers: {
+        ...config?.headers,
+        "X-CSRF-Token": this.csrfToken,
+      },
+    });
+    return response.data;
+  }
+
   getConfig(): SapProfile {
     return {
       name: this.config.name,
@@ -214,6 +697,16 @@ export class SapConnection {
       client: this.config.client,
       user: this.config.user,
       useStrictSSL: this.config.useStrictSSL,
+      bspNamePatterns: this.config.bspNamePatterns,
+      authType: this.config.authType,
+      certificatePath: this.config.certificatePath,
+      keyPath: this.config.keyPath,
+      oauthGrantType: this.config.oauthGrantType,
+      proxyUrl: this.config.proxyUrl,
+      proxyUser: this.config.proxyUser,
+      proxyBypass: this.config.proxyBypass,
+      protection: this.config.protection,
+      language: this.config.language,
     };
   }
 }
@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+import { ConfigService } from './ConfigService';
+import { ConnectionManager } from './ConnectionManager';
+import { BspService } from './BspService';
+import { CancelledError } from './SapConnection';
+
+export interface SystemSnapshot {
+    profile: string;
+    server: string;
+    client: string;
+    exists: boolean;
+    changedBy?: string;
+    changedAt?: string;
+    fileCount: number;
+    /** Set when the system could not be read, e.g. wrong password or no connection */
+    error?: string;
+}
+
+export type SystemFileStatus = 'identical' | 'different' | 'missing';
+
+export interface SystemFileComparison {
+    path: string;
+    status: SystemFileStatus;
+    /** Content hash per system, in the order of `systems`; undefined where the file is missing */
+    hashes: Array<string | undefined>;
+}
+
+export interface SystemComparison {
+    bspName: string;
+    systems: SystemSnapshot[];
+    files: SystemFileComparison[];
+    generatedAt: string;
+}
+
+/**
+ * Compares one BSP application across several SAP systems (e.g. DEV, QAS, PRD)
+ * by the content hash of every file
+ */
+export class SystemCompareService {
+    private configService: ConfigService;
+    private connections: ConnectionManager;
+
+    constructor(configService: ConfigService, connections: ConnectionManager) {
+        this.configService = configService;
+        this.connections = connections;
+    }
+
+    async compare(
+        bspName: string,
+        profileNames: string[],
+        progress?: vscode.Progress<{ message?: string; increment?: number }>,
+        token?: vscode.CancellationToken
+    ): Promise<SystemComparison> {
+        if (profileNames.length < 2) {
+            throw new Error('Select at least two profiles to compare');
+        }
+
+        const appName = bspName.trim().toUpperCase();
+
+        // Systems are read in parallel, each with its own download pool
+        const results = await Promise.all(profileNames.map(async (profileName) => {
+            const result = await this.readSystem(profileName, appName, token);
+            progress?.report({ message: `Read ${profileName}`, increment: 100 / profileNames.length });
+            return result;
+        }));
+
+        const systems = results.map(r => r.snapshot);
+        const allPaths = new Set<string>();
+        results.forEach(r => Object.keys(r.hashes).forEach(file => allPaths.add(file)));
+
+        // Unreadable systems do not count as "missing" for every file
+        const readable = results.map(r => !r.snapshot.error);
+
+        const files: SystemFileComparison[] = Array.from(allPaths).sort().map(file => {
+            const hashes = results.map(r => r.hashes[file]);
+            const compared = hashes.filter((_, i) => readable[i]);
+
+            let status: SystemFileStatus = 'identical';
+            if (compared.some(hash => hash === undefined)) {
+                status = 'missing';
+            } else if (new Set(compared).size > 1) {
+                status = 'different';
+            }
+            return { path: file, status, hashes };
+        });
+
+        return { bspName: appName, systems, files, generatedAt: new Date().toISOString() };
+    }
+
+    private async readSystem(
+        profileName: string,
+        appName: string,
+        token?: vscode.CancellationToken
+    ): Promise<{ snapshot: SystemSnapshot; hashes: Record<string, string> }> {
+        const profile = this.configService.getProfile(profileName);
+        const snapshot: SystemSnapshot = {
+            profile: profileName,
+            server: profile?.server || '',
+            client: profile?.client || '',
+            exists: false,
+            fileCount: 0
+        };
+
+        try {
+            const connection = await this.connections.get(profileName);
+            if (!connection) {
+                throw new Error(`Profile "${profileName}" not found or credentials not set`);
+            }
+
+            const bspService = new BspService(connection);
+            // Read directly: the application list is filtered by the profile's name patterns
+            const app = await bspService.getApplication(appName, token);
+            if (!app) {
+                return { snapshot, hashes: {} };
+            }
+
+            snapshot.exists = true;
+            snapshot.changedBy = app.changedBy;
+            snapshot.changedAt = app.changedAt;
+
+            const hashes = await bspService.getFileHashes(appName, token);
+            snapshot.fileCount = Object.keys(hashes).length;
+            return { snapshot, hashes };
+        } catch (error: any) {
+            if (error instanceof CancelledError) {
+                throw error;
+            }
+            snapshot.error = String(error.message || error);
+            return { snapshot, hashes: {} };
+        }
+    }
+}
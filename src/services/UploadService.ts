@@ -0,0 +1,511 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { CancelledError, SapConnection } from './SapConnection';
+import { BspService, BspTreeEntry } from './BspService';
+import { AdtError } from './AdtError';
+
+const FILESTORE_URL = '/sap/bc/adt/filestore/ui5-bsp/objects';
+const APPINDEX_URL = '/sap/bc/adt/filestore/ui5-bsp/appindex';
+
+// Files that belong to the local tooling and must never reach the BSP
+const EXCLUDED_FILES = ['.nwabaprc'];
+
+export type UploadAction = 'create' | 'update' | 'delete';
+
+export interface UploadTarget {
+    bspName: string;
+    package: string;
+    description: string;
+    transport: string;
+}
+
+export interface UploadEntry {
+    /** Path relative to the BSP root, always with forward slashes */
+    path: string;
+    type: 'file' | 'folder';
+    action: UploadAction;
+}
+
+export interface UploadPlan {
+    bspName: string;
+    sourceDir: string;
+    containerExists: boolean;
+    entries: UploadEntry[];
+    /** Files whose content is identical on the server and are skipped */
+    unchanged: string[];
+    /**
+     * Part of `unchanged` known only from the manifest of the last deploy
+     * from this machine; their server content was not read
+     */
+    unchangedByManifest: string[];
+    /** Content hash of every local file, used to refresh the deploy manifest */
+    hashes: Record<string, string>;
+}
+
+export interface UploadPlanOptions {
+    /** Only upload files that are new or whose content differs from the server */
+    delta?: boolean;
+    /** Hashes recorded by the last deploy, path -> hash */
+    manifest?: Record<string, string>;
+    /** Delete files and folders that exist on the server but no longer locally */
+    syncDeletions?: boolean;
+}
+
+export interface UploadFileResult extends UploadEntry {
+    success: boolean;
+    error?: string;
+}
+
+export interface UploadResult {
+    results: UploadFileResult[];
+    created: number;
+    updated: number;
+    deleted: number;
+    unchanged: number;
+    failed: number;
+    /** True when the run was stopped before all entries were processed */
+    cancelled: boolean;
+}
+
+/**
+ * Uploads a local folder into a BSP application through the ADT filestore API.
+ * Replaces the nwabap-ui5uploader child process: same REST calls, but in-process
+ * and with structured per-file results.
+ */
+export class UploadService {
+    private static readonly ACTION_LABELS: Record<UploadAction, string> = {
+        create: 'Creating',
+        update: 'Updating',
+        delete: 'Deleting'
+    };
+
+    private connection: SapConnection;
+    private bspService: BspService;
+
+    constructor(connection: SapConnection) {
+        this.connection = connection;
+        this.bspService = new BspService(connection);
+    }
+
+    /**
+     * Upload all files of sourceDir into the BSP application
+     */
+    async upload(
+        sourceDir: string,
+        target: UploadTarget,
+        progress?: vscode.Progress<{ message?: string; increment?: number }>,
+        onFile?: (result: UploadFileResult) => void,
+        options?: UploadPlanOptions,
+        token?: vscode.CancellationToken
+    ): Promise<UploadResult> {
+        progress?.report({ message: 'Comparing with server...' });
+        const plan = await this.createPlan(sourceDir, target.bspName, options, progress, token);
+        return this.execute(plan, target, progress, onFile, token);
+    }
+
+    /**
+     * Build the list of folders and files that have to be created or updated.
+     * In delta mode a file that exists on the server is compared by content hash,
+     * taken from the manifest when it is still in sync with the server file list,
+     * otherwise from the downloaded remote content.
+     * Planning only reads, so cancelling it throws a CancelledError.
+     */
+    async createPlan(
+        sourceDir: string,
+        bspName: string,
+        options?: UploadPlanOptions,
+        progress?: vscode.Progress<{ message?: string; increment?: number }>,
+        token?: vscode.CancellationToken
+    ): Promise<UploadPlan> {
+        const localFiles = UploadService.collectLocalFiles(sourceDir);
+        const containerExists = await this.containerExists(bspName, token);
+        const remoteTree = containerExists ? await this.bspService.getFileTree(bspName, token) : [];
+
+        const remoteFolders = new Set(remoteTree.filter(e => e.type === 'folder').map(e => e.path));
+        const remoteFiles = new Set(remoteTree.filter(e => e.type === 'file').map(e => e.path));
+
+        // Every parent folder of a local file has to exist on the server
+        const localFolders = new Set<string>();
+        for (const file of localFiles) {
+            const parts = file.split('/');
+            for (let i = 1; i < parts.length; i++) {
+                localFolders.add(parts.slice(0, i).join('/'));
+            }
+        }
+
+        // Folders are created top-down, so sort them by depth
+        const folderEntries: UploadEntry[] = Array.from(localFolders)
+            .filter(folder => !remoteFolders.has(folder))
+            .sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b))
+            .map(folder => ({ path: folder, type: 'folder', action: 'create' }));
+
+        const hashes: Record<string, string> = {};
+        for (const file of localFiles) {
+            hashes[file] = UploadService.hash(fs.readFileSync(path.join(sourceDir, file)));
+        }
+
+        // A manifest is only trusted while every file it describes is still on the server
+        let manifest = options?.manifest;
+        if (manifest && !Object.keys(manifest).every(file => remoteFiles.has(file))) {
+            manifest = undefined;
+        }
+
+        const fileEntries: UploadEntry[] = [];
+        const unchanged: string[] = [];
+        const unchangedByManifest: string[] = [];
+
+        for (const file of localFiles) {
+            if (!remoteFiles.has(file)) {
+                fileEntries.push({ path: file, type: 'file', action: 'create' });
+                continue;
+            }
+
+            if (options?.delta) {
+                let remoteHash = manifest?.[file];
+                if (!remoteHash) {
+                    progress?.report({ message: `Comparing: ${file}` });
+                    try {
+                        remoteHash = UploadService.hash(await this.bspService.downloadFile(bspName, file, token));
+                    } catch (error) {
+                        if (error instanceof CancelledError) {
+                            throw error;
+                        }
+                        // Unreadable remote file: upload it to be safe
+                        remoteHash = undefined;
+                    }
+                }
+                if (remoteHash === hashes[file]) {
+                    unchanged.push(file);
+                    if (manifest?.[file]) {
+                        unchangedByManifest.push(file);
+                    }
+                    continue;
+                }
+            }
+
+            fileEntries.push({ path: file, type: 'file', action: 'update' });
+        }
+
+        const deleteEntries = options?.syncDeletions
+            ? UploadService.planDeletions(remoteTree, new Set(localFiles), localFolders)
+            : [];
+
+        return {
+            bspName,
+            sourceDir,
+            containerExists,
+            // Deletions go first so a removed file can be replaced by a folder of the same name
+            entries: [...deleteEntries, ...folderEntries, ...fileEntries],
+            unchanged,
+            unchangedByManifest,
+            hashes
+        };
+    }
+
+    /**
+     * Remote-only files and folders, ordered files first and then folders
+     * deepest first. Content of a deleted folder is removed with the folder.
+     * Paths that are never uploaded (dot files, .nwabaprc) are never deleted
+     * either: they are missing from the local list on purpose. Folders that
+     * contain such a path are kept for the same reason.
+     */
+    static planDeletions(remoteTree: BspTreeEntry[], localFiles: Set<string>, localFolders: Set<string>): UploadEntry[] {
+        const excluded = remoteTree.filter(e => UploadService.isExcluded(e.path)).map(e => e.path);
+        const candidates = remoteTree.filter(e => !UploadService.isExcluded(e.path));
+        const deletedFolders = candidates
+            .filter(e => e.type === 'folder' && !localFolders.has(e.path))
+            .filter(e => !excluded.some(item => item.startsWith(`${e.path}/`)))
+            .map(e => e.path);
+        const isInDeletedFolder = (itemPath: string) =>
+            deletedFolders.some(folder => itemPath.startsWith(`${folder}/`));
+
+        const fileDeletes: UploadEntry[] = candidates
+            .filter(e => e.type === 'file' && !localFiles.has(e.path) && !isInDeletedFolder(e.path))
+            .map(e => ({ path: e.path, type: 'file', action: 'delete' }));
+
+        const folderDeletes: UploadEntry[] = deletedFolders
+            .filter(folder => !isInDeletedFolder(folder))
+            .sort((a, b) => b.split('/').length - a.split('/').length)
+            .map(folder => ({ path: folder, type: 'folder', action: 'delete' }));
+
+        return [...fileDeletes, ...folderDeletes];
+    }
+
+    /**
+     * Build the manifest to store after a run: hashes of every file that is now
+     * known to be identical on the server
+     */
+    static buildManifest(plan: UploadPlan, result: UploadResult): Record<string, string> {
+        const manifest: Record<string, string> = {};
+        for (const file of plan.unchanged) {
+            manifest[file] = plan.hashes[file];
+        }
+        for (const entry of result.results) {
+            if (entry.success && entry.type === 'file' && entry.action !== 'delete') {
+                manifest[entry.path] = plan.hashes[entry.path];
+            }
+        }
+        return manifest;
+    }
+
+    /**
+     * Execute an upload plan. Failed entries are recorded and the remaining
+     * entries are still processed, so the result describes the whole run.
+     * Cancellation is checked between entries: a request that is already
+     * running is completed, so the results list exactly what was written.
+     */
+    async execute(
+        plan: UploadPlan,
+        target: UploadTarget,
+        progress?: vscode.Progress<{ message?: string; increment?: number }>,
+        onFile?: (result: UploadFileResult) => void,
+        token?: vscode.CancellationToken
+    ): Promise<UploadResult> {
+        const results: UploadFileResult[] = [];
+
+        SapConnection.throwIfCancelled(token);
+
+        if (!plan.containerExists) {
+            progress?.report({ message: `Creating BSP container ${target.bspName}...` });
+            await this.createContainer(target);
+        }
+
+        const total = plan.entries.length || 1;
+        let cancelled = false;
+
+        for (const entry of plan.entries) {
+            if (token?.isCancellationRequested) {
+                cancelled = true;
+                break;
+            }
+
+            progress?.report({
+                message: `${UploadService.ACTION_LABELS[entry.action]}: ${entry.path}`,
+                increment: 100 / total
+            });
+
+            let result: UploadFileResult;
+            try {
+                if (entry.action === 'delete') {
+                    await this.deleteObject(entry, target);
+                } else if (entry.type === 'folder') {
+                    await this.createFolder(entry.path, target);
+                } else {
+                    await this.writeFile(plan.sourceDir, entry, target);
+                }
+                result = { ...entry, success: true };
+            } catch (error: any) {
+                result = { ...entry, success: false, error: String(error.message || error) };
+            }
+
+            results.push(result);
+            if (onFile) {
+                onFile(result);
+            }
+        }
+
+        const failed = results.filter(r => !r.success).length;
+
+        // The application index is only worth recalculating for a complete upload
+        if (failed === 0 && !cancelled) {
+            progress?.report({ message: 'Calculating application index...' });
+            await this.calcAppIndex(target.bspName);
+        }
+
+        return {
+            results,
+            created: results.filter(r => r.success && r.type === 'file' && r.action === 'create').length,
+            updated: results.filter(r => r.success && r.type === 'file' && r.action === 'update').length,
+            deleted: results.filter(r => r.success && r.action === 'delete').length,
+            unchanged: plan.unchanged.length,
+            failed,
+            cancelled
+        };
+    }
+
+    /**
+     * True for paths that are never uploaded: anything inside a dot file or
+     * folder (e.g. .Ui5RepositoryIgnore, .well-known/) and local tooling files
+     */
+    static isExcluded(relativePath: string): boolean {
+        return relativePath.split('/').some(part => part.startsWith('.') || EXCLUDED_FILES.includes(part));
+    }
+
+    /**
+     * Recursively list the files of a local folder as forward-slash relative paths.
+     * Dot files are skipped, matching the "**" glob the nwabap uploader used.
+     */
+    static collectLocalFiles(sourceDir: string, relativeDir: string = ''): string[] {
+        const files: string[] = [];
+        const entries = fs.readdirSync(path.join(sourceDir, relativeDir), { withFileTypes: true });
+
+        for (const entry of entries) {
+            if (UploadService.isExcluded(entry.name)) {
+                continue;
+            }
+
+            const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+            if (entry.isDirectory()) {
+                files.push(...UploadService.collectLocalFiles(sourceDir, relativePath));
+            } else if (entry.isFile()) {
+                files.push(relativePath);
+            }
+        }
+
+        return files.sort();
+    }
+
+    /**
+     * Create a single folder; its parent folder has to exist already
+     */
+    async createFolder(folderPath: string, target: UploadTarget): Promise<void> {
+        const { parent, name } = this.splitPath(folderPath);
+        const url = `${this.objectUrl(target.bspName, parent)}/content` + this.buildQuery({
+            type: 'folder',
+            isBinary: 'false',
+            name,
+            devclass: target.package,
+            corrNr: target.transport
+        });
+
+        await this.connection.post(url, '', { headers: this.writeHeaders() });
+    }
+
+    /**
+     * Write the content of a single file, creating it or replacing the existing one
+     */
+    async writeContent(filePath: string, content: Buffer, action: 'create' | 'update', target: UploadTarget): Promise<void> {
+        const isBinary = String(UploadService.isBinary(content));
+        // ADT rejects empty bodies, so empty files are sent as a single blank
+        const body = content.length > 0 ? content : ' ';
+
+        if (action === 'create') {
+            const { parent, name } = this.splitPath(filePath);
+            const url = `${this.objectUrl(target.bspName, parent)}/content` + this.buildQuery({
+                type: 'file',
+                isBinary,
+                name,
+                devclass: target.package,
+                charset: 'UTF-8',
+                corrNr: target.transport
+            });
+            await this.connection.post(url, body, { headers: this.writeHeaders() });
+        } else {
+            const url = `${this.objectUrl(target.bspName, filePath)}/content` + this.buildQuery({
+                isBinary,
+                charset: 'UTF-8',
+                corrNr: target.transport
+            });
+            await this.connection.put(url, body, { headers: { ...this.writeHeaders(), 'If-Match': '*' } });
+        }
+    }
+
+    /**
+     * Delete a single file, or a folder including its content
+     */
+    async deleteObject(entry: Pick<UploadEntry, 'path' | 'type'>, target: UploadTarget): Promise<void> {
+        const url = `${this.objectUrl(target.bspName, entry.path)}/content` + this.buildQuery({
+            deleteChildren: entry.type === 'folder' ? 'true' : undefined,
+            corrNr: target.transport
+        });
+
+        await this.connection.delete(url, { headers: { ...this.writeHeaders(), 'If-Match': '*' } });
+    }
+
+    // ===== Private Helper Methods =====
+
+    /**
+     * Only a 404 means the application is new. Any other failure would turn
+     * the plan into a full create without deletions, so it is passed on.
+     */
+    private async containerExists(bspName: string, token?: vscode.CancellationToken): Promise<boolean> {
+        try {
+            await this.connection.get(`${FILESTORE_URL}/${encodeURIComponent(bspName)}`, {
+                signal: SapConnection.signalFor(token)
+            });
+            return true;
+        } catch (error) {
+            if (error instanceof AdtError && error.status === 404) {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    private async createContainer(target: UploadTarget): Promise<void> {
+        const url = `${FILESTORE_URL}/%20/content` + this.buildQuery({
+            type: 'folder',
+            isBinary: 'false',
+            name: target.bspName,
+            description: target.description,
+            devclass: target.package,
+            corrNr: target.transport,
+            // Master language of the new application, not left to the session
+            masterLanguage: this.connection.getConfig().language
+        });
+
+        try {
+            await this.connection.post(url, '', { headers: this.writeHeaders() });
+        } catch (error: any) {
+            // 405 means the container already exists
+            if (error.response?.status !== 405) {
+                throw error;
+            }
+        }
+    }
+
+    private async writeFile(sourceDir: string, entry: UploadEntry, target: UploadTarget): Promise<void> {
+        const content = fs.readFileSync(path.join(sourceDir, entry.path));
+        await this.writeContent(entry.path, content, entry.action === 'create' ? 'create' : 'update', target);
+    }
+
+    private async calcAppIndex(bspName: string): Promise<void> {
+        await this.connection.post(`${APPINDEX_URL}/${encodeURIComponent(bspName)}`, '', {
+            headers: this.writeHeaders()
+        });
+    }
+
+    /**
+     * Object URL inside the filestore: the BSP name and the path are one
+     * encoded segment, e.g. ZAPP%2Fcontroller%2FMain.controller.js
+     */
+    private objectUrl(bspName: string, relativePath: string): string {
+        const fullPath = relativePath ? `${bspName}/${relativePath}` : bspName;
+        return `${FILESTORE_URL}/${encodeURIComponent(fullPath)}`;
+    }
+
+    private splitPath(relativePath: string): { parent: string; name: string } {
+        const index = relativePath.lastIndexOf('/');
+        return index === -1
+            ? { parent: '', name: relativePath }
+            : { parent: relativePath.slice(0, index), name: relativePath.slice(index + 1) };
+    }
+
+    private buildQuery(params: Record<string, string | undefined>): string {
+        const query = Object.entries(params)
+            .filter(([, value]) => value !== undefined && value !== '')
+            .map(([key, value]) => `${key}=${encodeURIComponent(value!)}`)
+            .join('&');
+        return query ? `?${query}` : '';
+    }
+
+    private writeHeaders(): Record<string, string> {
+        return {
+            'Content-Type': 'application/octet-stream',
+            'Accept': '*/*'
+        };
+    }
+
+    private static hash(content: Buffer): string {
+        return crypto.createHash('sha1').update(content).digest('hex');
+    }
+
+    /**
+     * Same heuristic as git: a NUL byte in the first 8000 bytes means binary
+     */
+    private static isBinary(content: Buffer): boolean {
+        return content.subarray(0, 8000).includes(0);
+    }
+}
@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import { AxiosResponse } from 'axios';
+import { AdtError } from '../services/AdtError';
+
+function exceptionBody(type: string, message: string, properties: Record<string, string> = {}): string {
+	const entries = Object.entries(properties)
+		.map(([key, value]) => `<entry key="${key}">${value}</entry>`)
+		.join('');
+	return `<?xml version="1.0" encoding="utf-8"?><exc:exception xmlns:exc="http://www.sap.com/abapxml/types/communicationframework">`
+		+ `<namespace id="com.sap.adt"/><type id="${type}"/>`
+		+ `<message lang="EN">${message}</message><localizedMessage lang="EN">${message}</localizedMessage>`
+		+ `<properties>${entries}</properties></exc:exception>`;
+}
+
+function response(status: number, data: string): AxiosResponse {
+	return { status, statusText: '', data, headers: {}, config: {} } as AxiosResponse;
+}
+
+suite('AdtError Test Suite', () => {
+	test('parses type, message and T100 key of an ADT exception', () => {
+		const exception = AdtError.parseException(exceptionBody('ExceptionResourceNoAccess', 'No authorization', {
+			'T100KEY-ID': 'SO',
+			'T100KEY-NO': '123',
+			'T100KEY-V1': 'ZAPP'
+		}));
+
+		assert.ok(exception);
+		assert.strictEqual(exception.namespace, 'com.sap.adt');
+		assert.strictEqual(exception.type, 'ExceptionResourceNoAccess');
+		assert.strictEqual(exception.localizedMessage, 'No authorization');
+		assert.deepStrictEqual(exception.t100, { id: 'SO', number: '123', variables: ['ZAPP', '', '', ''] });
+	});
+
+	test('keeps T100 variables at their position', () => {
+		const exception = AdtError.parseException(exceptionBody('ExceptionResourceFailure', 'Failure', {
+			'T100KEY-ID': 'ZMSG',
+			'T100KEY-NO': '001',
+			'T100KEY-V2': 'ZAPP'
+		}));
+
+		assert.deepStrictEqual(exception?.t100?.variables, ['', 'ZAPP', '', '']);
+	});
+
+	test('reads the lock owner only from the enqueue message', () => {
+		const guidance = (id: string, number: string) => AdtError.fromResponse(response(403, exceptionBody('ExceptionResourceLocked', 'Object is locked', {
+			'T100KEY-ID': id,
+			'T100KEY-NO': number,
+			'T100KEY-V1': 'OTHER'
+		}))).guidance;
+
+		assert.ok(guidance('EU', '510')?.includes('locked by user OTHER'));
+		assert.ok(guidance('ZMSG', '001')?.includes('locked by another user'));
+	});
+
+	test('returns undefined for bodies that are no ADT exception', () => {
+		assert.strictEqual(AdtError.parseException('<html><body>Service unavailable</body></html>'), undefined);
+		assert.strictEqual(AdtError.parseException(''), undefined);
+	});
+
+	test('classifies the common failures', () => {
+		const kind = (status: number, data: string) => AdtError.fromResponse(response(status, data)).kind;
+
+		assert.strictEqual(kind(401, ''), 'unauthenticated');
+		assert.strictEqual(kind(403, exceptionBody('ExceptionResourceLocked', 'ZAPP is currently editing by OTHER')), 'locked');
+		assert.strictEqual(kind(400, exceptionBody('ExceptionResourceCreationFailure', 'Package ZMISSING does not exist')), 'packageNotFound');
+		assert.strictEqual(kind(403, exceptionBody('ExceptionNotAuthorized', 'No authorization for S_DEVELOP')), 'notAuthorized');
+		assert.strictEqual(kind(403, ''), 'notAuthorized');
+		assert.strictEqual(kind(404, exceptionBody('ExceptionResourceNotFound', 'Resource ZAPP not found')), 'notFound');
+		assert.strictEqual(kind(500, exceptionBody('ExceptionResourceFailure', 'Short dump')), 'other');
+	});
+
+	test('marks a CSRF token rejected after renewal', () => {
+		const error = AdtError.fromResponse(response(403, ''), true);
+		assert.strictEqual(error.kind, 'csrf');
+		assert.strictEqual(error.status, 403);
+	});
+});
@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import { LandscapeImportService } from '../services/LandscapeImportService';
+
+suite('LandscapeImportService Test Suite', () => {
+	test('reads CSV rows with a header in any column order', () => {
+		const proposals = LandscapeImportService.parseCsv([
+			'# SAP systems',
+			'user;client;server;name',
+			'',
+			'developer;1;dev.example.com:44300;DEV',
+			'developer;200;https://qas.example.com/;QAS'
+		].join('\n'));
+
+		assert.deepStrictEqual(proposals.map(p => p.profile), [
+			{ name: 'DEV', server: 'https://dev.example.com:44300', client: '001', user: 'DEVELOPER', useStrictSSL: true, authType: 'basic' },
+			{ name: 'QAS', server: 'https://qas.example.com', client: '200', user: 'DEVELOPER', useStrictSSL: true, authType: 'basic' }
+		]);
+		assert.deepStrictEqual(proposals.map(p => p.source), ['Line 4', 'Line 5']);
+		assert.deepStrictEqual(proposals[0].notes, ['https:// added to the server']);
+	});
+
+	test('skips invalid servers and notes invalid clients', () => {
+		const proposals = LandscapeImportService.parseCsv([
+			'DEV,https://dev.example.com,100',
+			'BAD,http://bad host,100',
+			'QAS,https://qas.example.com,1000',
+			'PRD,https://prd.example.com'
+		].join('\n'));
+
+		assert.deepStrictEqual(proposals.map(p => [p.profile.name, p.profile.client, p.source]), [
+			['DEV', '100', 'Line 1'],
+			['QAS', '', 'Line 3'],
+			['PRD', '', 'Line 4']
+		]);
+		assert.deepStrictEqual(proposals[1].notes, ['Client "1000" is not 3 digits and was left empty']);
+		assert.deepStrictEqual(proposals[2].notes, ['No client']);
+	});
+
+	test('derives URLs from SAP Logon entries', () => {
+		const proposals = LandscapeImportService.parseLandscapeXml(`<?xml version="1.0" encoding="UTF-8"?>
+<Landscape>
+	<Services>
+		<Service type="SAPGUI" name="Development" systemid="E01" server="dev.example.com:3200" client="100"/>
+		<Service type="SAPGUI" name="QAS Load Balancing" systemid="QAS" msid="ms1"/>
+		<Service type="FIORI" name="Launchpad" url="https://prd.example.com/sap/bc/ui2/flp?sap-client=300"/>
+		<Service type="SAPGUI" name="Development" systemid="E01" server="/H/router.example.com/S/3299/H/dev2.example.com/S/3201"/>
+	</Services>
+	<Messageservers>
+		<Messageserver uuid="ms1" host="qas.example.com" port="3601"/>
+	</Messageservers>
+</Landscape>`);
+
+		assert.deepStrictEqual(proposals.map(p => [p.profile.name, p.profile.server, p.profile.client]), [
+			['E01 Development', 'https://dev.example.com:44300', '100'],
+			['QAS Load Balancing', 'https://qas.example.com:44301', ''],
+			['Launchpad', 'https://prd.example.com', '300'],
+			['E01 Development (2)', 'https://dev2.example.com:44301', '']
+		]);
+		assert.ok(proposals[3].notes.some(note => note.includes('SAProuter')));
+	});
+
+	test('rejects files that are no landscape', () => {
+		assert.throws(() => LandscapeImportService.parseLandscapeXml('<Other/>'), /no <Landscape> element/);
+	});
+});
@@ -0,0 +1,26 @@
+import * as assert from 'assert';
+import { LogService } from '../services/LogService';
+
+suite('LogService Test Suite', () => {
+	test('redacts secret values in JSON', () => {
+		const text = LogService.redact('{"user":"DEVELOPER","password":"Secret1","client_secret":"abc"}');
+		assert.strictEqual(text, '{"user":"DEVELOPER","password":"[redacted]","client_secret":"[redacted]"}');
+	});
+
+	test('redacts secret values in form data and query strings', () => {
+		assert.strictEqual(
+			LogService.redact('grant_type=refresh_token&refresh_token=xyz&client_id=cli'),
+			'grant_type=refresh_token&refresh_token=[redacted]&client_id=cli'
+		);
+		assert.strictEqual(
+			LogService.redact('code=4711&state=abc&sap-password=pw'),
+			'code=[redacted]&state=abc&sap-password=[redacted]'
+		);
+	});
+
+	test('keeps text without secrets unchanged', () => {
+		const text = '<asx:abap><DATA><DEVCLASS>ZPKG</DEVCLASS></DATA></asx:abap>';
+		assert.strictEqual(LogService.redact(text), text);
+		assert.strictEqual(LogService.redact('name=ZAPP&type=folder'), 'name=ZAPP&type=folder');
+	});
+});
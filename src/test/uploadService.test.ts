@@ -0,0 +1,128 @@
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BspTreeEntry } from '../services/BspService';
+import { SapConnection } from '../services/SapConnection';
+import { UploadService } from '../services/UploadService';
+
+function tree(...paths: string[]): BspTreeEntry[] {
+	return paths.map(p => p.endsWith('/')
+		? { path: p.slice(0, -1), type: 'folder' }
+		: { path: p, type: 'file' });
+}
+
+function sha1(content: string): string {
+	return crypto.createHash('sha1').update(content).digest('hex');
+}
+
+/**
+ * UploadService on an existing application with the given remote files.
+ * Remote content that is missing from `remote` cannot be downloaded.
+ */
+function serviceFor(remote: Record<string, string>, downloads: string[]): UploadService {
+	const connection = { get: async () => '' } as unknown as SapConnection;
+	const service = new UploadService(connection);
+	(service as any).bspService = {
+		getFileTree: async () => tree(...Object.keys(remote)),
+		downloadFile: async (_app: string, file: string) => {
+			downloads.push(file);
+			if (remote[file] === undefined) {
+				throw new Error('500 Internal Server Error');
+			}
+			return Buffer.from(remote[file]);
+		}
+	};
+	return service;
+}
+
+suite('UploadService Test Suite', () => {
+	let sourceDir: string;
+
+	setup(() => {
+		sourceDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bsp-upload-'));
+		fs.writeFileSync(path.join(sourceDir, 'index.html'), '<html/>');
+		fs.writeFileSync(path.join(sourceDir, 'app.js'), 'new();');
+	});
+
+	teardown(() => {
+		fs.rmSync(sourceDir, { recursive: true, force: true });
+	});
+
+	test('plans remote-only files and folders for deletion', () => {
+		const remote = tree('index.html', 'old.js', 'css/', 'css/style.css', 'legacy/', 'legacy/a.js', 'legacy/sub/', 'legacy/sub/b.js');
+		const deletions = UploadService.planDeletions(remote, new Set(['index.html', 'css/style.css']), new Set(['css']));
+
+		// Content of a deleted folder goes with the folder
+		assert.deepStrictEqual(deletions, [
+			{ path: 'old.js', type: 'file', action: 'delete' },
+			{ path: 'legacy', type: 'folder', action: 'delete' }
+		]);
+	});
+
+	test('never deletes excluded paths or the folders that hold them', () => {
+		const remote = tree(
+			'index.html', '.nwabaprc', '.Ui5RepositoryIgnore', '.git/', '.git/config',
+			'css/', 'css/.keep', 'css/old.css', 'sub/', 'sub/.nwabaprc', 'empty/'
+		);
+		const deletions = UploadService.planDeletions(remote, new Set(['index.html']), new Set());
+
+		assert.deepStrictEqual(deletions, [
+			{ path: 'css/old.css', type: 'file', action: 'delete' },
+			{ path: 'empty', type: 'folder', action: 'delete' }
+		]);
+	});
+
+	test('excludes dot files and tooling files at any depth', () => {
+		assert.strictEqual(UploadService.isExcluded('.nwabaprc'), true);
+		assert.strictEqual(UploadService.isExcluded('sub/.nwabaprc'), true);
+		assert.strictEqual(UploadService.isExcluded('.git/config'), true);
+		assert.strictEqual(UploadService.isExcluded('css/.keep'), true);
+		assert.strictEqual(UploadService.isExcluded('css/style.css'), false);
+		assert.strictEqual(UploadService.isExcluded('index.html'), false);
+	});
+
+	test('compares remote content in delta mode without a manifest', async () => {
+		const downloads: string[] = [];
+		const service = serviceFor({ 'index.html': '<html/>', 'app.js': 'old();' }, downloads);
+		const plan = await service.createPlan(sourceDir, 'ZAPP', { delta: true });
+
+		assert.deepStrictEqual(plan.entries, [{ path: 'app.js', type: 'file', action: 'update' }]);
+		assert.deepStrictEqual(plan.unchanged, ['index.html']);
+		assert.deepStrictEqual(plan.unchangedByManifest, []);
+		assert.deepStrictEqual(downloads.sort(), ['app.js', 'index.html']);
+	});
+
+	test('trusts the manifest while all its files are on the server', async () => {
+		const downloads: string[] = [];
+		const service = serviceFor({ 'index.html': '<html/>', 'app.js': 'old();' }, downloads);
+		const manifest = { 'index.html': sha1('<html/>'), 'app.js': sha1('new();') };
+		const plan = await service.createPlan(sourceDir, 'ZAPP', { delta: true, manifest });
+
+		// The manifest wins over the remote content, which is not read
+		assert.deepStrictEqual(plan.entries, []);
+		assert.deepStrictEqual(plan.unchangedByManifest.sort(), ['app.js', 'index.html']);
+		assert.deepStrictEqual(downloads, []);
+	});
+
+	test('ignores a manifest that lists files missing on the server', async () => {
+		const downloads: string[] = [];
+		const service = serviceFor({ 'index.html': '<html/>', 'app.js': 'old();' }, downloads);
+		const manifest = { 'index.html': sha1('<html/>'), 'gone.js': 'x' };
+		const plan = await service.createPlan(sourceDir, 'ZAPP', { delta: true, manifest });
+
+		assert.deepStrictEqual(plan.entries, [{ path: 'app.js', type: 'file', action: 'update' }]);
+		assert.deepStrictEqual(plan.unchangedByManifest, []);
+		assert.deepStrictEqual(downloads.sort(), ['app.js', 'index.html']);
+	});
+
+	test('uploads files whose remote content cannot be read', async () => {
+		const service = serviceFor({ 'index.html': '<html/>' }, []);
+		(service as any).bspService.getFileTree = async () => tree('index.html', 'app.js');
+		const plan = await service.createPlan(sourceDir, 'ZAPP', { delta: true });
+
+		assert.deepStrictEqual(plan.entries, [{ path: 'app.js', type: 'file', action: 'update' }]);
+		assert.deepStrictEqual(plan.unchanged, ['index.html']);
+	});
+});
@@ -0,0 +1,123 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { RemoteComparison } from '../services/DeployService';
+import { BspFileSystemProvider } from './BspFileSystemProvider';
+
+type CompareGroup = 'modified' | 'added' | 'removed';
+
+const GROUP_LABELS: Record<CompareGroup, string> = {
+    modified: 'Modified',
+    added: 'Only local',
+    removed: 'Only on server'
+};
+
+const GROUP_ICONS: Record<CompareGroup, vscode.ThemeIcon> = {
+    modified: new vscode.ThemeIcon('diff-modified', new vscode.ThemeColor('gitDecoration.modifiedResourceForeground')),
+    added: new vscode.ThemeIcon('diff-added', new vscode.ThemeColor('gitDecoration.untrackedResourceForeground')),
+    removed: new vscode.ThemeIcon('diff-removed', new vscode.ThemeColor('gitDecoration.deletedResourceForeground'))
+};
+
+/**
+ * "Compare with Server" view: the files of the last comparison, grouped by
+ * modified, local-only and server-only. Clicking a file opens the diff editor.
+ */
+export class BspCompareProvider implements vscode.TreeDataProvider<CompareTreeItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<CompareTreeItem | undefined | null | void> = new vscode.EventEmitter<CompareTreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<CompareTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    private comparison: RemoteComparison | undefined;
+
+    setComparison(comparison: RemoteComparison | undefined): void {
+        this.comparison = comparison;
+        vscode.commands.executeCommand('setContext', 'bspManager.hasComparison', !!comparison);
+        this._onDidChangeTreeData.fire();
+    }
+
+    getComparison(): RemoteComparison | undefined {
+        return this.comparison;
+    }
+
+    getTreeItem(element: CompareTreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: CompareTreeItem): Thenable<CompareTreeItem[]> {
+        const comparison = this.comparison;
+        if (!comparison) {
+            return Promise.resolve([]);
+        }
+
+        if (!element) {
+            const groups = (['modified', 'added', 'removed'] as CompareGroup[])
+                .filter(group => comparison[group].length > 0)
+                .map(group => CompareTreeItem.group(group, comparison[group].length));
+
+            if (groups.length === 0) {
+                return Promise.resolve([
+                    CompareTreeItem.info(`${comparison.bspName} is identical to ${comparison.localDir} (${comparison.unchanged.length} files)`)
+                ]);
+            }
+            return Promise.resolve(groups);
+        }
+
+        if (element.group && !element.filePath) {
+            return Promise.resolve(
+                comparison[element.group].map(file => CompareTreeItem.file(element.group!, file, comparison))
+            );
+        }
+
+        return Promise.resolve([]);
+    }
+}
+
+export class CompareTreeItem extends vscode.TreeItem {
+    public group?: CompareGroup;
+    public filePath?: string;
+
+    static group(group: CompareGroup, count: number): CompareTreeItem {
+        const item = new CompareTreeItem(GROUP_LABELS[group], vscode.TreeItemCollapsibleState.Expanded);
+        item.group = group;
+        item.description = String(count);
+        item.iconPath = GROUP_ICONS[group];
+        item.contextValue = 'compareGroup';
+        return item;
+    }
+
+    static file(group: CompareGroup, filePath: string, comparison: RemoteComparison): CompareTreeItem {
+        const isFolder = filePath.endsWith('/');
+        const item = new CompareTreeItem(filePath, vscode.TreeItemCollapsibleState.None);
+        item.group = group;
+        item.filePath = filePath;
+        const localUri = vscode.Uri.file(path.join(comparison.localDir, ...filePath.split('/')));
+        item.iconPath = isFolder ? vscode.ThemeIcon.Folder : vscode.ThemeIcon.File;
+        item.resourceUri = localUri;
+        item.contextValue = 'compareFile';
+
+        if (isFolder) {
+            return item;
+        }
+
+        const remoteUri = BspFileSystemProvider.uriFor(comparison.profile, comparison.bspName, filePath);
+
+        if (group === 'modified') {
+            item.command = {
+                command: 'vscode.diff',
+                title: 'Compare with Server',
+                arguments: [remoteUri, localUri, `${filePath} (${comparison.profile}) ↔ Local`]
+            };
+        } else {
+            item.command = {
+                command: 'vscode.open',
+                title: 'Open',
+                arguments: [group === 'added' ? localUri : remoteUri]
+            };
+        }
+        return item;
+    }
+
+    static info(message: string): CompareTreeItem {
+        const item = new CompareTreeItem(message, vscode.TreeItemCollapsibleState.None);
+        item.iconPath = new vscode.ThemeIcon('check');
+        return item;
+    }
+}
@@ -1,7 +1,8 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { BspApplication, BspService } from '../services/BspService';
-import { SapConnection } from '../services/SapConnection';
-import { ConfigService } from '../services/ConfigService';
+import { ProfileProtection, SapConnection, SapProfile } from '../services/SapConnection';
+import { ConfigService, Landscape, LandscapeTier, ProfileSource, WORKSPACE_CONFIG_FILE } from '../services/ConfigService';
 
 export class BspExplorerProvider implements vscode.TreeDataProvider<BspTreeItem> {
     private _onDidChangeTreeData: vscode.EventEmitter<BspTreeItem | undefined | null | void> = new vscode.EventEmitter<BspTreeItem | undefined | null | void>();
@@ -82,7 +83,7 @@ export class BspExplorerProvider implements vscode.TreeDataProvider<BspTreeItem>
 
             const config = await this.configService.getConnectionConfig(targetProfile);
             if (!config) {
-                this.errorMessage = `Profile "${targetProfile}" not found or password not set.`;
+                this.errorMessage = `Profile "${targetProfile}" not found or credentials not set.`;
                 this.isLoading = false;
                 this.refresh();
                 return;
@@ -228,9 +229,11 @@ export class BspTreeItem extends vscode.TreeItem {
 }
 
 // Profile Explorer Provider - now receives shared ConfigService
-export class ProfileExplorerProvider implements vscode.TreeDataProvider<ProfileTreeItem> {
-    private _onDidChangeTreeData: vscode.EventEmitter<ProfileTreeItem | undefined | null | void> = new vscode.EventEmitter<ProfileTreeItem | undefined | null | void>();
-    readonly onDidChangeTreeData: vscode.Event<ProfileTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+type ProfileExplorerItem = ProfileTreeItem | LandscapeTreeItem | LandscapeTierTreeItem;
+
+export class ProfileExplorerProvider implements vscode.TreeDataProvider<ProfileExplorerItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<ProfileExplorerItem | undefined | null | void> = new vscode.EventEmitter<ProfileExplorerItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<ProfileExplorerItem | undefined | null | void> = this._onDidChangeTreeData.event;
 
     constructor(
         private context: vscode.ExtensionContext,
@@ -241,17 +244,31 @@ export class ProfileExplorerProvider implements vscode.TreeDataProvider<ProfileT
         this._onDidChangeTreeData.fire();
     }
 
-    getTreeItem(element: ProfileTreeItem): vscode.TreeItem {
+    getTreeItem(element: ProfileExplorerItem): vscode.TreeItem {
         return element;
     }
 
-    getChildren(element?: ProfileTreeItem): Thenable<ProfileTreeItem[]> {
+    getParent(element: ProfileExplorerItem): ProfileExplorerItem | undefined {
+        return element instanceof LandscapeTreeItem ? undefined : element.parent;
+    }
+
+    getChildren(element?: ProfileExplorerItem): Thenable<ProfileExplorerItem[]> {
+        if (element instanceof LandscapeTreeItem) {
+            return Promise.resolve(element.landscape.tiers.map((tier, index) =>
+                new LandscapeTierTreeItem(element, index, index < element.landscape.tiers.length - 1)
+            ));
+        }
+        if (element instanceof LandscapeTierTreeItem) {
+            const profiles = element.tier.profiles
+                .map(name => this.configService.getProfile(name))
+                .filter((p): p is SapProfile => !!p);
+            return Promise.resolve(profiles.map(profile => this.createProfileItem(profile, element)));
+        }
         if (element) {
             return Promise.resolve([]);
         }
 
         const profiles = this.configService.getProfiles();
-        const defaultProfile = this.configService.getDefaultProfile();
 
         if (profiles.length === 0) {
             const noProfileItem = new ProfileTreeItem(
@@ -267,16 +284,30 @@ export class ProfileExplorerProvider implements vscode.TreeDataProvider<ProfileT
             return Promise.resolve([noProfileItem]);
         }
 
-        return Promise.resolve(
-            profiles.map(profile => 
-                new ProfileTreeItem(
-                    profile.name,
-                    `${profile.server} (Client: ${profile.client})`,
-                    profile.name === defaultProfile,
-                    profile.name === defaultProfile ? 'profileDefault' : 'profile'
-                )
-            )
+        // Profiles of a landscape are listed under their tier, the others below the landscapes
+        const landscapes = this.configService.getLandscapes();
+        const grouped = new Set(landscapes.flatMap(l => l.tiers.flatMap(t => t.profiles)));
+
+        return Promise.resolve([
+            ...landscapes.map(landscape => new LandscapeTreeItem(landscape)),
+            ...profiles.filter(p => !grouped.has(p.name)).map(profile => this.createProfileItem(profile))
+        ]);
+    }
+
+    private createProfileItem(profile: SapProfile, parent?: LandscapeTierTreeItem): ProfileTreeItem {
+        const defaultProfile = this.configService.getDefaultProfile();
+        const item = new ProfileTreeItem(
+            profile.name,
+            profile.authType === 'oauth' ? `${profile.server} (BTP)` : `${profile.server} (Client: ${profile.client})`,
+            profile.name === defaultProfile,
+            profile.name === defaultProfile ? 'profileDefault' : 'profile',
+            this.configService.getProfileSource(profile.name),
+            profile.protection
         );
+        item.parent = parent;
+        // Stable id, so a profile inside a landscape can be revealed
+        item.id = `profile:${profile.name}`;
+        return item;
     }
 
     getConfigService(): ConfigService {
@@ -284,22 +315,50 @@ export class ProfileExplorerProvider implements vscode.TreeDataProvider<ProfileT
     }
 
     async getTreeItemByProfileName(name: string): Promise<ProfileTreeItem | undefined> {
-        const children = await this.getChildren();
-        return children.find(item => item.label === name && (item.contextValue === 'profile' || item.contextValue === 'profileDefault'));
+        const found = this.configService.findLandscapeTier(name);
+        const children = found
+            ? await this.getChildren(new LandscapeTierTreeItem(new LandscapeTreeItem(found.landscape), found.tierIndex, false))
+            : await this.getChildren();
+        return children.find((item): item is ProfileTreeItem => item instanceof ProfileTreeItem && item.label === name
+            && (item.contextValue === 'profile' || item.contextValue === 'profileDefault'));
     }
 }
 
+/**
+ * How protection levels are shown in the profile tree and the status bar
+ */
+export const PROTECTION_DISPLAY: Record<ProfileProtection, { label: string; color?: string; statusBarColor?: string }> = {
+    open: { label: 'Open' },
+    confirm: { label: 'Protected', color: 'charts.orange', statusBarColor: 'statusBarItem.warningBackground' },
+    readOnly: { label: 'Read-only', color: 'charts.red', statusBarColor: 'statusBarItem.errorBackground' }
+};
+
 export class ProfileTreeItem extends vscode.TreeItem {
+    /** Tier the profile is listed under, if it belongs to a landscape */
+    parent?: LandscapeTierTreeItem;
+
     constructor(
         public readonly label: string,
         public readonly serverInfo: string,
         public readonly isDefault: boolean,
-        public readonly contextValue: string
+        public readonly contextValue: string,
+        public readonly source?: ProfileSource,
+        public readonly protection: ProfileProtection = 'open'
     ) {
         super(label, vscode.TreeItemCollapsibleState.None);
         
         this.description = this.serverInfo;
         this.tooltip = `${this.label}\n${this.serverInfo}${this.isDefault ? '\n(Default)' : ''}`;
+        if (source?.kind === 'workspace') {
+            // Workspace profiles come from the project, changes go to its bsp-manager.json
+            this.description += ` · ${path.basename(source.folder || '')}`;
+            this.tooltip += `\nFrom ${path.join(source.folder || '', WORKSPACE_CONFIG_FILE)}`;
+        }
+        if (protection !== 'open') {
+            this.description += ` · ${PROTECTION_DISPLAY[protection].label}`;
+            this.tooltip += `\nProtection: ${PROTECTION_DISPLAY[protection].label}`
+                + (protection === 'readOnly' ? ' (nothing is written to this system)' : ' (deploys need typed confirmation)');
+        }
         this.iconPath = this.getIcon();
 
         // Removed click command - use context menu instead
@@ -316,8 +375,58 @@ export class ProfileTreeItem extends vscode.TreeItem {
         if (this.contextValue === 'noProfile') {
             return new vscode.ThemeIcon('add');
         }
-        return this.isDefault 
-            ? new vscode.ThemeIcon('star-full') 
-            : new vscode.ThemeIcon('account');
+        // Protected profiles keep their icon, colored by protection level
+        const color = PROTECTION_DISPLAY[this.protection].color;
+        const themeColor = color ? new vscode.ThemeColor(color) : undefined;
+        if (this.protection === 'readOnly') {
+            return new vscode.ThemeIcon('lock', themeColor);
+        }
+        if (this.isDefault) {
+            return new vscode.ThemeIcon('star-full', themeColor);
+        }
+        return this.source?.kind === 'workspace'
+            ? new vscode.ThemeIcon('root-folder', themeColor)
+            : new vscode.ThemeIcon('account', themeColor);
+    }
+}
+
+/**
+ * Landscape in the SAP Profiles tree, its tiers are listed in promotion order
+ */
+export class LandscapeTreeItem extends vscode.TreeItem {
+    constructor(public readonly landscape: Landscape) {
+        super(landscape.name, vscode.TreeItemCollapsibleState.Expanded);
+
+        this.id = `landscape:${landscape.name}`;
+        this.description = landscape.tiers.map(t => t.name).join(' → ');
+        this.contextValue = 'landscape';
+        this.iconPath = new vscode.ThemeIcon('server-environment');
+    }
+}
+
+/**
+ * Tier of a landscape (e.g. QAS) with its profiles. Every tier but the last
+ * can be promoted to the next one.
+ */
+export class LandscapeTierTreeItem extends vscode.TreeItem {
+    public readonly tier: LandscapeTier;
+    public readonly nextTier?: LandscapeTier;
+
+    constructor(
+        public readonly parent: LandscapeTreeItem,
+        public readonly tierIndex: number,
+        promotable: boolean
+    ) {
+        const tier = parent.landscape.tiers[tierIndex];
+        super(tier.name, vscode.TreeItemCollapsibleState.Expanded);
+
+        this.tier = tier;
+        this.nextTier = promotable ? parent.landscape.tiers[tierIndex + 1] : undefined;
+        this.id = `landscape:${parent.landscape.name}/${tierIndex}`;
+        this.description = this.nextTier ? `→ ${this.nextTier.name}` : undefined;
+        this.tooltip = `${parent.landscape.name}: tier ${tierIndex + 1} of ${parent.landscape.tiers.length}`
+            + (this.nextTier ? `\nPromote deploys applications from here to ${this.nextTier.name}` : '');
+        this.contextValue = this.nextTier ? 'landscapeTierPromotable' : 'landscapeTier';
+        this.iconPath = new vscode.ThemeIcon('layers');
     }
 }
@@ -0,0 +1,357 @@
+import * as vscode from 'vscode';
+import { BspFile, BspService } from '../services/BspService';
+import { SapConnection } from '../services/SapConnection';
+import { AdtError } from '../services/AdtError';
+import { ConfigService } from '../services/ConfigService';
+import { ConnectionManager } from '../services/ConnectionManager';
+import { DeployService } from '../services/DeployService';
+import { UploadService, UploadTarget } from '../services/UploadService';
+import { confirmProtectedWrite } from '../commands/confirmProtected';
+
+// Folder listings are reused for stat() calls for a short time
+const LISTING_TTL_MS = 30 * 1000;
+
+interface BspLocation {
+    profile: string;
+    appName?: string;
+    /** Path inside the application, without leading slash */
+    path: string;
+}
+
+/**
+ * Serves BSP applications as `bsp://<profile>/<APP>/path`, so remote files
+ * can be opened and saved in normal editor tabs.
+ * The root of a profile lists its applications as folders.
+ */
+export class BspFileSystemProvider implements vscode.FileSystemProvider {
+    public static readonly scheme = 'bsp';
+
+    private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    readonly onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> = this._onDidChangeFile.event;
+
+    private listings = new Map<string, { items: BspFile[]; loadedAt: number }>();
+    // Package and transport per application, asked for once per session
+    private targets = new Map<string, Promise<UploadTarget | undefined>>();
+
+    // Protected profiles confirmed for editing in this session
+    private confirmedProfiles = new Set<string>();
+
+    constructor(
+        private readonly configService: ConfigService,
+        private readonly connections: ConnectionManager,
+        private readonly deployService: DeployService
+    ) {}
+
+    /**
+     * Build the URI of an application (or a path inside it)
+     */
+    static uriFor(profile: string, appName: string, relativePath: string = ''): vscode.Uri {
+        const segment = BspFileSystemProvider.toSegment(appName);
+        const path = relativePath ? `/${segment}/${relativePath}` : `/${segment}`;
+        return vscode.Uri.from({ scheme: BspFileSystemProvider.scheme, authority: profile, path });
+    }
+
+    /**
+     * Drop cached listings and transports, e.g. after profile changes
+     */
+    reset(): void {
+        this.listings.clear();
+        this.targets.clear();
+        this.confirmedProfiles.clear();
+    }
+
+    watch(): vscode.Disposable {
+        // Remote changes are not pushed by the server
+        return new vscode.Disposable(() => {});
+    }
+
+    async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+        const location = this.parse(uri);
+
+        if (!location.appName || !location.path) {
+            return { type: vscode.FileType.Directory, ctime: 0, mtime: 0, size: 0 };
+        }
+
+        const { parent, name } = this.splitPath(location.path);
+        const items = await this.list(location.profile, location.appName, parent);
+        const item = items.find(i => i.name === name);
+        if (!item) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+
+        return {
+            type: item.type === 'folder' ? vscode.FileType.Directory : vscode.FileType.File,
+            ctime: 0,
+            mtime: 0,
+            size: 0
+        };
+    }
+
+    async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+        const location = this.parse(uri);
+        const bspService = await this.getBspService(location.profile);
+
+        if (!location.appName) {
+            const applications = await bspService.listBspApplications();
+            return applications.map(app => [BspFileSystemProvider.toSegment(app.name), vscode.FileType.Directory]);
+        }
+
+        const items = await this.list(location.profile, location.appName, location.path, true);
+        return items.map(item => [
+            item.name,
+            item.type === 'folder' ? vscode.FileType.Directory : vscode.FileType.File
+        ]);
+    }
+
+    async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+        const location = this.parse(uri);
+        if (!location.appName || !location.path) {
+            throw vscode.FileSystemError.FileIsADirectory(uri);
+        }
+
+        const bspService = await this.getBspService(location.profile);
+        try {
+            return await bspService.downloadFile(location.appName, location.path);
+        } catch (error: any) {
+            throw vscode.FileSystemError.Unavailable(`${uri.path}: ${error.message || error}`);
+        }
+    }
+
+    async writeFile(uri: vscode.Uri, content: Uint8Array, options: { create: boolean; overwrite: boolean }): Promise<void> {
+        const location = this.parse(uri);
+        if (!location.appName || !location.path) {
+            throw vscode.FileSystemError.NoPermissions('Only files inside a BSP application can be written');
+        }
+
+        await this.assertWritable(location.profile, location.appName);
+        const exists = await this.exists(uri);
+        if (!exists && !options.create) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        if (exists && !options.overwrite) {
+            throw vscode.FileSystemError.FileExists(uri);
+        }
+
+        const target = await this.getTarget(location.profile, location.appName);
+        const uploadService = new UploadService(await this.getConnection(location.profile));
+        await uploadService.writeContent(location.path, Buffer.from(content), exists ? 'update' : 'create', target);
+
+        this.invalidate(location);
+        this._onDidChangeFile.fire([{ type: exists ? vscode.FileChangeType.Changed : vscode.FileChangeType.Created, uri }]);
+    }
+
+    async createDirectory(uri: vscode.Uri): Promise<void> {
+        const location = this.parse(uri);
+        if (!location.appName || !location.path) {
+            throw vscode.FileSystemError.NoPermissions('BSP applications cannot be created here, use Deploy instead');
+        }
+        await this.assertWritable(location.profile, location.appName);
+
+        const target = await this.getTarget(location.profile, location.appName);
+        const uploadService = new UploadService(await this.getConnection(location.profile));
+        await uploadService.createFolder(location.path, target);
+
+        this.invalidate(location);
+        this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Created, uri }]);
+    }
+
+    async delete(uri: vscode.Uri): Promise<void> {
+        const location = this.parse(uri);
+        if (!location.appName || !location.path) {
+            throw vscode.FileSystemError.NoPermissions('BSP applications cannot be deleted here');
+        }
+        await this.assertWritable(location.profile, location.appName);
+
+        const stat = await this.stat(uri);
+        const target = await this.getTarget(location.profile, location.appName);
+        const uploadService = new UploadService(await this.getConnection(location.profile));
+        await uploadService.deleteObject({
+            path: location.path,
+            type: stat.type === vscode.FileType.Directory ? 'folder' : 'file'
+        }, target);
+
+        this.invalidate(location);
+        this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Deleted, uri }]);
+    }
+
+    rename(): void {
+        throw vscode.FileSystemError.NoPermissions('Renaming is not supported by the ADT filestore');
+    }
+
+    // ===== Private Helper Methods =====
+
+    /**
+     * Read-only profiles refuse every change; confirm profiles ask once per
+     * session before the first change
+     */
+    private async assertWritable(profileName: string, appName: string): Promise<void> {
+        if (this.configService.getProtection(profileName) === 'readOnly') {
+            throw vscode.FileSystemError.NoPermissions(`Profile "${profileName}" is read-only`);
+        }
+        if (this.confirmedProfiles.has(profileName)) {
+            return;
+        }
+        if (!(await confirmProtectedWrite(this.configService, profileName, `Edit ${appName}`))) {
+            throw vscode.FileSystemError.NoPermissions(`Changes to protected profile "${profileName}" were not confirmed`);
+        }
+        this.confirmedProfiles.add(profileName);
+    }
+
+    private parse(uri: vscode.Uri): BspLocation {
+        const segments = uri.path.split('/').filter(Boolean);
+        return {
+            profile: uri.authority,
+            appName: segments[0] ? BspFileSystemProvider.fromSegment(segments[0]).toUpperCase() : undefined,
+            path: segments.slice(1).join('/')
+        };
+    }
+
+    /**
+     * Namespaced names (/UISAP/APP) are one path segment in the URI: #UISAP#APP
+     */
+    private static toSegment(appName: string): string {
+        return appName.replace(/\//g, '#');
+    }
+
+    private static fromSegment(segment: string): string {
+        return segment.replace(/#/g, '/');
+    }
+
+    private splitPath(relativePath: string): { parent: string; name: string } {
+        const index = relativePath.lastIndexOf('/');
+        return index === -1
+            ? { parent: '', name: relativePath }
+            : { parent: relativePath.slice(0, index), name: relativePath.slice(index + 1) };
+    }
+
+    /**
+     * False only when the file is known to be missing; an unreachable
+     * server must not turn an update into a create
+     */
+    private async exists(uri: vscode.Uri): Promise<boolean> {
+        try {
+            await this.stat(uri);
+            return true;
+        } catch (error) {
+            if (error instanceof vscode.FileSystemError && error.code === 'FileNotFound') {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    private async list(profile: string, appName: string, folder: string, fresh: boolean = false): Promise<BspFile[]> {
+        const key = `${profile}|${appName}|${folder}`;
+        const cached = this.listings.get(key);
+        if (!fresh && cached && Date.now() - cached.loadedAt < LISTING_TTL_MS) {
+            return cached.items;
+        }
+
+        // Failed listings are not cached and never look like an empty folder
+        const bspService = await this.getBspService(profile);
+        let items: BspFile[];
+        try {
+            items = await bspService.fetchContents(appName, folder);
+        } catch (error: any) {
+            if (error instanceof AdtError && error.status === 404) {
+                throw vscode.FileSystemError.FileNotFound(BspFileSystemProvider.uriFor(profile, appName, folder));
+            }
+            throw vscode.FileSystemError.Unavailable(`${appName}/${folder}: ${error.message || error}`);
+        }
+        this.listings.set(key, { items, loadedAt: Date.now() });
+        return items;
+    }
+
+    private invalidate(location: BspLocation): void {
+        const { parent } = this.splitPath(location.path);
+        this.listings.delete(`${location.profile}|${location.appName}|${parent}`);
+        this.listings.delete(`${location.profile}|${location.appName}|${location.path}`);
+    }
+
+    private async getConnection(profile: string): Promise<SapConnection> {
+        const connection = await this.connections.get(profile);
+        if (!connection) {
+            throw vscode.FileSystemError.Unavailable(`Profile "${profile}" not found or credentials not set`);
+        }
+        return connection;
+    }
+
+    private async getBspService(profile: string): Promise<BspService> {
+        return new BspService(await this.getConnection(profile));
+    }
+
+    /**
+     * Package and transport used for writes into an application.
+     * A transport is only asked for when the package needs one and the
+     * application is not already locked in a request.
+     */
+    private async getTarget(profile: string, appName: string): Promise<UploadTarget> {
+        const key = `${profile}|${appName}`;
+        let pending = this.targets.get(key);
+        if (!pending) {
+            pending = this.resolveTarget(profile, appName);
+            this.targets.set(key, pending);
+        }
+
+        const target = await pending;
+        if (!target) {
+            this.targets.delete(key);
+            throw vscode.FileSystemError.NoPermissions(`Saving to ${appName} cancelled: no transport request selected`);
+        }
+        return target;
+    }
+
+    private async resolveTarget(profile: string, appName: string): Promise<UploadTarget | undefined> {
+        const bspService = await this.getBspService(profile);
+        const [app, details] = await Promise.all([
+            this.deployService.checkApplication(profile, appName),
+            bspService.getBspDetails(appName)
+        ]);
+
+        const packageName = app.package || details.package;
+        let transport = app.transport || '';
+
+        if (!transport && packageName !== '$TMP') {
+            const check = await this.deployService.checkTransportRequired(profile, packageName, appName);
+            if (check.required) {
+                transport = await this.pickTransport(appName, check.availableRequests) || '';
+                if (!transport) {
+                    return undefined;
+                }
+            }
+        }
+
+        return {
+            bspName: appName,
+            package: packageName,
+            description: details.description,
+            transport
+        };
+    }
+
+    private async pickTransport(appName: string, requests: Array<{ trId: string; description: string }>): Promise<string | undefined> {
+        const manual = '$(edit) Enter transport request...';
+        const selected = await vscode.window.showQuickPick(
+            [
+                ...requests.map(r => ({ label: r.trId, description: r.description })),
+                { label: manual, description: '' }
+            ],
+            { placeHolder: `Transport request for changes to ${appName}`, ignoreFocusOut: true }
+        );
+
+        if (!selected) {
+            return undefined;
+        }
+        if (selected.label !== manual) {
+            return selected.label;
+        }
+
+        const input = await vscode.window.showInputBox({
+            prompt: `Transport request for changes to ${appName}`,
+            placeHolder: 'e.g., S4DK900046',
+            ignoreFocusOut: true,
+            validateInput: (value) => /^[A-Z0-9]{3}K[0-9]{6}$/i.test(value.trim()) ? undefined : 'Enter a transport number like S4DK900046'
+        });
+        return input?.trim().toUpperCase();
+    }
+}
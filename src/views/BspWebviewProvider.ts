@@ -1,7 +1,11 @@
 import * as vscode from 'vscode';
 import { BspApplication, BspService } from '../services/BspService';
-import { SapConnection } from '../services/SapConnection';
+import { CancelledError } from '../services/SapConnection';
 import { ConfigService } from '../services/ConfigService';
+import { ConnectionManager } from '../services/ConnectionManager';
+
+// Results of the first server-side search, and how many more each "Show more results" asks for
+const SEARCH_PAGE_SIZE = 100;
 
 export class BspWebviewProvider implements vscode.WebviewViewProvider {
     public static readonly viewType = 'bspExplorer';
@@ -15,11 +19,18 @@ export class BspWebviewProvider implements vscode.WebviewViewProvider {
     private errorMessage: string | undefined;
     private bspService: BspService | undefined;
     private currentProfile: string | undefined;
+    // Server-side search (bspManager.serverSearch) instead of loading the full list
+    private serverSearch: boolean = false;
+    private hasMore: boolean = false;
+    private pageLimit: number = SEARCH_PAGE_SIZE;
+    private isSearching: boolean = false;
+    private searchCancellation: vscode.CancellationTokenSource | undefined;
 
     constructor(
         private readonly _extensionUri: vscode.Uri,
         private readonly context: vscode.ExtensionContext,
-        private readonly configService: ConfigService
+        private readonly configService: ConfigService,
+        private readonly connections: ConnectionManager
     ) {}
 
     public resolveWebviewView(
@@ -40,14 +51,33 @@ export class BspWebviewProvider implements vscode.WebviewViewProvider {
             switch (message.command) {
                 case 'search':
                     this.searchTerm = message.value || '';
-                    this.filterApplications();
-                    this._updateView();
+                    if (this.serverSearch) {
+                        await this.runServerSearch(false);
+                    } else {
+                        this.filterApplications();
+                        this._updateView();
+                    }
+                    break;
+                case 'loadMore':
+                    if (this.serverSearch && this.hasMore && !this.isSearching) {
+                        await this.runServerSearch(true);
+                    }
                     break;
                 case 'download':
                     if (message.appName) {
                         vscode.commands.executeCommand('bspManager.downloadBspByName', message.appName);
                     }
                     break;
+                case 'browse':
+                    if (message.appName) {
+                        vscode.commands.executeCommand('bspManager.browseBsp', message.appName);
+                    }
+                    break;
+                case 'compareSystems':
+                    if (message.appName) {
+                        vscode.commands.executeCommand('bspManager.compareSystems', message.appName);
+                    }
+                    break;
                 case 'refresh':
                     // Only refresh if we have a profile
                     if (this.currentProfile) {
@@ -67,8 +97,12 @@ export class BspWebviewProvider implements vscode.WebviewViewProvider {
         this.applications = [];
         this.filteredApplications = [];
         this.hasLoaded = false;
+        const previousProfile = this.currentProfile;
         this.currentProfile = undefined; // Reset current profile so status bar clears on error
         this.searchTerm = ''; // Reset filter when loading new profile
+        this.hasMore = false;
+        this.searchCancellation?.cancel();
+        this.serverSearch = vscode.workspace.getConfiguration('bspManager').get<boolean>('serverSearch', false);
         this._updateView();
 
         try {
@@ -85,24 +119,27 @@ export class BspWebviewProvider implements vscode.WebviewViewProvider {
                 return;
             }
 
-            const config = await this.configService.getConnectionConfig(targetProfile);
-            if (!config) {
-                this.errorMessage = `Profile "${targetProfile}" not found or password not set.`;
+            // The session of the profile switched away from is not needed anymore
+            if (previousProfile && previousProfile !== targetProfile) {
+                this.connections.close(previousProfile);
+            }
+
+            const connection = await this.connections.get(targetProfile);
+            if (!connection) {
+                this.errorMessage = `Profile "${targetProfile}" not found or credentials not set.`;
                 this.isLoading = false;
                 this._updateView();
                 return;
             }
-
-            const connection = new SapConnection(config);
             
             await vscode.window.withProgress({
-                location: vscode.ProgressLocation.Window,
+                location: vscode.ProgressLocation.Notification,
                 title: `Loading BSPs from ${targetProfile}...`,
-                cancellable: false
-            }, async () => {
-                const isConnected = await connection.testConnection();
+                cancellable: true
+            }, async (_progress, token) => {
+                const isConnected = await connection.testConnection(token);
                 if (!isConnected) {
-                    const msg = `Connection failed to "${targetProfile}" (${config.server}). Check profile settings.`;
+                    const msg = `Connection failed to "${targetProfile}" (${connection.getConfig().server}). Check profile settings.`;
                     this.errorMessage = msg;
                     this.isLoading = false;
                     this.currentProfile = undefined;
@@ -113,12 +150,27 @@ export class BspWebviewProvider implements vscode.WebviewViewProvider {
 
                 this.bspService = new BspService(connection);
                 this.currentProfile = targetProfile;
-                this.applications = await this.bspService.listBspApplications();
+                if (this.serverSearch) {
+                    this.pageLimit = SEARCH_PAGE_SIZE;
+                    const result = await this.bspService.searchBspApplications('', this.pageLimit, token);
+                    this.applications = result.applications;
+                    this.hasMore = result.hasMore;
+                } else {
+                    this.applications = await this.bspService.listBspApplications(undefined, token);
+                }
                 this.filterApplications(true);
                 this.hasLoaded = true;
             });
             
         } catch (error) {
+            if (error instanceof CancelledError) {
+                // Back to the "no profile loaded" placeholder
+                this.bspService = undefined;
+                this.currentProfile = undefined;
+                this.isLoading = false;
+                this._updateView();
+                return;
+            }
             this.errorMessage = `Error: ${error}`;
             this.applications = [];
             this.filteredApplications = [];
@@ -129,8 +181,77 @@ export class BspWebviewProvider implements vscode.WebviewViewProvider {
         this._updateView();
     }
 
+    /**
+     * Search from outside the view (bspManager.filterBsp)
+     */
+    public async search(term: string): Promise<void> {
+        this.searchTerm = term;
+        if (this.serverSearch) {
+            await this.runServerSearch(false);
+        } else {
+            this.filterApplications();
+        }
+        this._updateView();
+    }
+
+    public getSearchTerm(): string {
+        return this.searchTerm;
+    }
+
+    /**
+     * Runs the search term on the server. A newer search cancels the running one.
+     * The quick search has no offset, so `more` repeats the search with a higher
+     * limit; results already shown are kept, also when that search fails.
+     */
+    private async runServerSearch(more: boolean): Promise<void> {
+        if (!this.bspService) {
+            return;
+        }
+
+        this.searchCancellation?.cancel();
+        const cancellation = new vscode.CancellationTokenSource();
+        this.searchCancellation = cancellation;
+        this.pageLimit = more ? this.pageLimit + SEARCH_PAGE_SIZE : SEARCH_PAGE_SIZE;
+        this.isSearching = true;
+        this._updateListOnly();
+
+        try {
+            const result = await this.bspService.searchBspApplications(this.searchTerm, this.pageLimit, cancellation.token);
+            if (more) {
+                const byName = new Map(this.applications.map(app => [app.name, app]));
+                result.applications.forEach(app => byName.set(app.name, app));
+                this.applications = Array.from(byName.values()).sort((a, b) => a.name.localeCompare(b.name));
+            } else {
+                this.applications = result.applications;
+            }
+            this.hasMore = result.hasMore;
+            this.errorMessage = undefined;
+        } catch (error) {
+            if (error instanceof CancelledError) {
+                // Replaced by a newer search
+                return;
+            }
+            if (more) {
+                this.pageLimit -= SEARCH_PAGE_SIZE;
+                vscode.window.showWarningMessage(`Could not load more results: ${error instanceof Error ? error.message : error}`);
+            } else {
+                this.applications = [];
+                this.hasMore = false;
+                this.errorMessage = `Error: ${error}`;
+            }
+        } finally {
+            if (this.searchCancellation === cancellation) {
+                this.searchCancellation = undefined;
+                this.isSearching = false;
+            }
+            cancellation.dispose();
+        }
+
+        this.filterApplications();
+    }
+
     private filterApplications(fullUpdate: boolean = false): void {
-        if (!this.searchTerm) {
+        if (this.serverSearch || !this.searchTerm) {
             this.filteredApplications = [...this.applications];
         } else {
             const term = this.searchTerm.toLowerCase();
@@ -232,6 +353,19 @@ export class BspWebviewProvider implements vscode.WebviewViewProvider {
             color: var(--vscode-descriptionForeground);
             margin-left: 8px;
         }
+        .action {
+            margin-left: 6px;
+            font-size: 12px;
+            visibility: hidden;
+        }
+        .item:hover .action { visibility: visible; }
+        .more {
+            padding: 6px 8px;
+            text-align: center;
+            font-size: 11px;
+            color: var(--vscode-textLink-foreground);
+            cursor: pointer;
+        }
         .msg { 
             padding: 20px; 
             text-align: center; 
@@ -300,7 +434,21 @@ export class BspWebviewProvider implements vscode.WebviewViewProvider {
             // Send search (debounce reduced for responsiveness but extension logic is fast)
             // Actually, we don't need to postMessage if we handle filtering in extension and push updates
             // But we need to tell extension the term.
-            timer = setTimeout(() => vscode.postMessage({command:'search',value:e.target.value}), 50);
+            timer = setTimeout(() => vscode.postMessage({command:'search',value:e.target.value}), ${this.serverSearch ? 400 : 50});
+        });
+
+        // Server-side search: more results when scrolled to the end
+        let loadingMore = false;
+        function loadMore() {
+            if (!loadingMore) {
+                loadingMore = true;
+                vscode.postMessage({command:'loadMore'});
+            }
+        }
+        window.addEventListener('scroll', () => {
+            if (document.getElementById('loadMore') && window.innerHeight + window.scrollY >= document.body.scrollHeight - 100) {
+                loadMore();
+            }
         });
 
         // Handle messages from extension
@@ -308,6 +456,7 @@ export class BspWebviewProvider implements vscode.WebviewViewProvider {
             const message = event.data;
             switch (message.command) {
                 case 'updateList':
+                    loadingMore = false;
                     listContainer.innerHTML = message.content;
                     if (infoText && message.info !== undefined) {
                         infoText.querySelector('span').innerText = message.info;
@@ -317,6 +466,8 @@ export class BspWebviewProvider implements vscode.WebviewViewProvider {
         });
 
         function download(name) { vscode.postMessage({command:'download',appName:name}); }
+        function browse(event, name) { event.stopPropagation(); vscode.postMessage({command:'browse',appName:name}); }
+        function compareSystems(event, name) { event.stopPropagation(); vscode.postMessage({command:'compareSystems',appName:name}); }
     </script>
 </body>
 </html>`;
@@ -325,6 +476,9 @@ export class BspWebviewProvider implements vscode.WebviewViewProvider {
     private _getInfoText(): string {
         if (this.isLoading) return ''; // Don't show loading here, it's shown in the list
         if (!this.hasLoaded) return '';
+        if (this.serverSearch) {
+            return this.isSearching ? 'Searching...' : `${this.applications.length}${this.hasMore ? '+' : ''} found`;
+        }
         return `${this.filteredApplications.length} / ${this.applications.length}`;
     }
 
@@ -352,9 +506,13 @@ export class BspWebviewProvider implements vscode.WebviewViewProvider {
                 </div>`;
         }
         if (this.filteredApplications.length === 0) {
-            return '<div class="msg">No results</div>';
+            return `<div class="msg">${this.isSearching ? 'Searching...' : 'No results'}</div>`;
         }
 
+        const more = this.serverSearch && this.hasMore
+            ? `<div class="more" id="loadMore" onclick="loadMore()">${this.isSearching ? 'Loading...' : 'Show more results'}</div>`
+            : '';
+
         return this.filteredApplications.map(app => {
             const name = this.extractText(app.name);
             const desc = this.extractText(app.description);
@@ -371,8 +529,10 @@ export class BspWebviewProvider implements vscode.WebviewViewProvider {
                 <span class="icon">📦</span>
                 <span class="name">${this.escapeHtml(name)}</span>
                 <span class="pkg">${this.escapeHtml(desc)}</span>
+                <span class="action" onclick="browse(event, '${this.escapeHtml(name)}')" title="Browse and edit on server">📂</span>
+                <span class="action" onclick="compareSystems(event, '${this.escapeHtml(name)}')" title="Compare across systems">⇄</span>
             </div>`;
-        }).join('');
+        }).join('') + more;
     }
 
     private extractText(val: any): string {
@@ -1,7 +1,10 @@
 import * as vscode from 'vscode';
-import { ConfigService } from '../services/ConfigService';
-import { SapProfile } from '../services/SapConnection';
+import { ConfigService, WorkspaceBspConfig } from '../services/ConfigService';
+import { CancelledError, SapConnection, SapProfile } from '../services/SapConnection';
 import { DeployService } from '../services/DeployService';
+import { UploadResult } from '../services/UploadService';
+import { showDeployPlan } from '../commands/deployDryRun';
+import { confirmProtectedWrite } from '../commands/confirmProtected';
 
 export class DeployFormPanel {
     public static currentPanel: DeployFormPanel | undefined;
@@ -142,6 +145,10 @@ export class DeployFormPanel {
                 break;
 
             case 'createTransport':
+                if (!(await confirmProtectedWrite(this.configService, message.profile, 'Create transport request'))) {
+                    this._panel.webview.postMessage({ command: 'createTransportResult', success: false, message: 'Not confirmed' });
+                    break;
+                }
                 try {
                     const newTrId = await this.deployService.createTransportRequest(
                         message.profile, 
@@ -166,56 +173,75 @@ export class DeployFormPanel {
                  }
                  break;
 
-            case 'deploy':
-                 // Final Deploy Step
-                 let sourceDir = '';
-
-                 if (this._initialPath) {
-                     // Use stored path from context menu
-                     const fs = require('fs');
-                     const p = require('path');
-                     let dir = this._initialPath;
-                     try {
-                        const stats = fs.statSync(this._initialPath);
-                        if(stats.isFile()) dir = p.dirname(this._initialPath);
-                     } catch(e) {}
-                     
-                     // Auto-detect 'dist' if in 'webapp' or root
-                     const distPath = p.join(dir, 'dist');
-                     const siblingDist = p.join(p.dirname(dir), 'dist');
-                     
-                     if (fs.existsSync(distPath)) {
-                         sourceDir = distPath;
-                     } else if (p.basename(dir) === 'webapp' && fs.existsSync(siblingDist)) {
-                         sourceDir = siblingDist;
-                     } else {
-                         sourceDir = dir; // Fallback
-                     }
-                 } else {
-                     const folderUri = await vscode.window.showOpenDialog({
-                         canSelectFiles: false,
-                         canSelectFolders: true,
-                         canSelectMany: false,
-                         openLabel: 'Select Dist Folder to Upload'
-                     });
+            case 'preview':
+                 const previewDir = await this.resolveSourceDir();
+                 if (!previewDir) {
+                     this._panel.webview.postMessage({ command: 'previewFinished', success: false });
+                     return;
+                 }
 
-                     if (!folderUri || folderUri.length === 0) {
-                         this._panel.webview.postMessage({ command: 'deployFinished', success: false, message: 'Cancelled' });
-                         return;
+                 try {
+                     const plan = await vscode.window.withProgress({
+                         location: vscode.ProgressLocation.Notification,
+                         title: `Preparing deploy preview for ${message.data.appName}...`,
+                         cancellable: true
+                     }, (progress, token) => this.deployService.createDeployPlan(
+                         message.data.profile,
+                         {
+                             bspName: message.data.appName,
+                             package: message.data.package,
+                             // A transport that is only created on deploy cannot be checked yet
+                             transport: message.data.transport === 'will_create' ? '' : message.data.transport,
+                             sourceDir: previewDir,
+                             delta: message.data.delta,
+                             syncDeletions: message.data.syncDeletions
+                         },
+                         progress,
+                         token
+                     ));
+
+                     await showDeployPlan(plan);
+                     this._panel.webview.postMessage({
+                         command: 'previewFinished',
+                         success: true,
+                         created: plan.files.create.length,
+                         updated: plan.files.update.length,
+                         deleted: plan.files.delete.length,
+                         unchanged: plan.files.unchanged.length
+                     });
+                 } catch (error: any) {
+                     if (!(error instanceof CancelledError)) {
+                         vscode.window.showErrorMessage(`Deploy preview failed: ${error.message || error}`);
                      }
-                     sourceDir = folderUri[0].fsPath;
+                     this._panel.webview.postMessage({ command: 'previewFinished', success: false });
+                 }
+                 break;
+
+            case 'deploy':
+                 // Final Deploy Step
+                 const sourceDir = await this.resolveSourceDir();
+                 if (!sourceDir) {
+                     this._panel.webview.postMessage({ command: 'deployFinished', success: false, message: 'Cancelled' });
+                     return;
+                 }
+                 if (!(await confirmProtectedWrite(this.configService, message.data.profile, `Deploy ${message.data.appName}`))) {
+                     this._panel.webview.postMessage({ command: 'deployFinished', success: false, message: 'Cancelled' });
+                     return;
                  }
 
                  vscode.window.withProgress({
                     location: vscode.ProgressLocation.Notification,
                     title: `Deploying ${message.data.appName}...`,
-                    cancellable: false
-                }, async (progress) => {
+                    cancellable: true
+                }, async (progress, token) => {
+                    // A request created here stays on the server even if the deploy stops
+                    let createdTransport: string | undefined;
                     try {
                         let transportId = message.data.transport;
                         
                         // Logic: If 'create' mode was selected, we need to create TR first
                         if (message.data.trOption === 'create') {
+                            SapConnection.throwIfCancelled(token);
                             vscode.window.showInformationMessage(`Creating Transport Request: ${message.data.trDescription}...`);
                             transportId = await this.deployService.createTransportRequest(
                                 message.data.profile, 
@@ -223,41 +249,58 @@ export class DeployFormPanel {
                                 message.data.package,
                                 message.data.appName
                             );
+                            createdTransport = transportId;
                             vscode.window.showInformationMessage(`Created Transport Request: ${transportId}`);
                         }
-                        await this.deployService.deploy(
+                        const result = await this.deployService.deploy(
                             message.data.profile, 
                             {
                                 bspName: message.data.appName,
                                 package: message.data.package,
                                 description: message.data.description,
                                 transport: transportId, // Use the potentially new transportId
-                                sourceDir: sourceDir
+                                sourceDir: sourceDir,
+                                delta: message.data.delta,
+                                syncDeletions: message.data.syncDeletions
                             }, 
                             progress,
-                            (line) => {
-                                // Strip ANSI codes
-                                // eslint-disable-next-line
-                                let cleanMsg = line.replace(/\x1B\[[0-9;]*[a-zA-Z]/g, '');
-                                
-                                // Format specific lines
-                                if (cleanMsg.includes('File') && cleanMsg.includes('updated')) {
-                                    const match = cleanMsg.match(/File\s+(.*?)\s+updated/);
-                                    if (match && match[1]) {
-                                        cleanMsg = 'Uploaded: ' + match[1];
-                                    }
+                            (result) => {
+                                if (result.type !== 'file' && result.action !== 'delete') {
+                                    return;
                                 }
-                                
-                                // Only show relevant upload info to avoid spamming the toast
-                                if (cleanMsg.includes('Uploaded:') || cleanMsg.includes('Calculating')) {
-                                     // Using \u00A0 (Non-breaking space) or just new line trying to push content down
-                                     // VS Code notifications concatenate nicely usually. 
-                                     // Trying \n to force separate line look if possible, or just cleaner separator.
-                                     progress.report({ message: '\n' + cleanMsg });
+                                const verb = { create: 'Created', update: 'Uploaded', delete: 'Deleted' }[result.action];
+                                const line = result.success
+                                    ? `${verb}: ${result.path}`
+                                    : `Failed: ${result.path} (${result.error})`;
+                                progress.report({ message: '\n' + line });
+                            },
+                            async (deletions) => {
+                                const listed = deletions.slice(0, 20).map(e => e.type === 'folder' ? `${e.path}/` : e.path);
+                                if (deletions.length > listed.length) {
+                                    listed.push(`... and ${deletions.length - listed.length} more`);
                                 }
-                            }
+                                const choice = await vscode.window.showWarningMessage(
+                                    `${deletions.length} object(s) exist in ${message.data.appName} but not locally and will be deleted:`,
+                                    { modal: true, detail: listed.join('\n') },
+                                    'Delete',
+                                    'Keep Files'
+                                );
+                                if (!choice) {
+                                    // Dismissing the question stops the deploy, it is not a failure
+                                    throw new CancelledError('Deployment cancelled');
+                                }
+                                return choice === 'Delete';
+                            },
+                            token
                         );
+
+                        if (result.cancelled) {
+                            this.reportCancelledDeploy(message.data.appName, result, createdTransport);
+                            return;
+                        }
                         
+                        const fileSummary = `${result.created} new, ${result.updated} modified, ${result.deleted} deleted, ${result.unchanged} unchanged`;
+
                         // Construct App URL
                         // Format: <server>/sap/bc/ui5_ui5/sap/<app_name>/index.html?sap-client=<client>
                         const profile = this.configService.getProfile(message.data.profile);
@@ -265,10 +308,13 @@ export class DeployFormPanel {
                             let server = profile.server.endsWith('/') ? profile.server.slice(0, -1) : profile.server;
                             let appName = message.data.appName.toLowerCase();
                             let client = profile.client;
-                            const appUrl = `${server}/sap/bc/ui5_ui5/sap/${appName}/index.html?sap-client=${client}`;
+                            // BTP ABAP environment systems have no client
+                            const appUrl = client
+                                ? `${server}/sap/bc/ui5_ui5/sap/${appName}/index.html?sap-client=${client}`
+                                : `${server}/sap/bc/ui5_ui5/sap/${appName}/index.html`;
                             
                             vscode.window.showInformationMessage(
-                                `Successfully deployed ${message.data.appName}!`,
+                                `Successfully deployed ${message.data.appName}! (${fileSummary})`,
                                 'Open App'
                             ).then(selection => {
                                 if (selection === 'Open App') {
@@ -276,11 +322,30 @@ export class DeployFormPanel {
                                 }
                             });
                         } else {
-                            vscode.window.showInformationMessage(`Successfully deployed ${message.data.appName}!`);
+                            vscode.window.showInformationMessage(`Successfully deployed ${message.data.appName}! (${fileSummary})`);
                         }
 
-                        this._panel.webview.postMessage({ command: 'deployFinished', success: true });
+                        this._panel.webview.postMessage({ 
+                            command: 'deployFinished', 
+                            success: true,
+                            created: result.created,
+                            updated: result.updated,
+                            deleted: result.deleted,
+                            unchanged: result.unchanged
+                        });
                     } catch (error: any) {
+                        if (error instanceof CancelledError) {
+                            // Stopped before the upload, no files have been written yet
+                            vscode.window.showWarningMessage(`Deployment of ${message.data.appName} cancelled. No files were written.`
+                                + (createdTransport ? ` Transport request ${createdTransport} was created and is kept.` : ''));
+                            this._panel.webview.postMessage({
+                                command: 'deployFinished',
+                                success: false,
+                                cancelled: true,
+                                written: createdTransport ? [`Created transport request: ${createdTransport}`] : []
+                            });
+                            return;
+                        }
                         vscode.window.showErrorMessage(`Deployment failed: ${error.message || error}`);
                         this._panel.webview.postMessage({ command: 'deployFinished', success: false, message: String(error.message || error) });
                     }
@@ -293,10 +358,63 @@ export class DeployFormPanel {
         }
     }
 
+    /**
+     * Tells the user and the webview which objects were written before the deploy was stopped
+     */
+    private reportCancelledDeploy(appName: string, result: UploadResult, createdTransport?: string) {
+        const written = result.results
+            .filter(r => r.success)
+            .map(r => `${r.action === 'delete' ? 'Deleted' : r.action === 'create' ? 'Created' : 'Updated'}: ${r.path}${r.type === 'folder' ? '/' : ''}`);
+        if (createdTransport) {
+            written.unshift(`Created transport request: ${createdTransport}`);
+        }
+
+        const listed = written.slice(0, 20);
+        if (written.length > listed.length) {
+            listed.push(`... and ${written.length - listed.length} more`);
+        }
+
+        vscode.window.showWarningMessage(
+            `Deployment of ${appName} cancelled after ${written.length} object(s) were written.`,
+            { modal: true, detail: listed.length > 0 ? listed.join('\n') : 'No files were written.' }
+        );
+
+        this._panel.webview.postMessage({
+            command: 'deployFinished',
+            success: false,
+            cancelled: true,
+            written
+        });
+    }
+
+    /**
+     * Folder to upload: derived from the context menu path (preferring dist) or picked by the user
+     */
+    private async resolveSourceDir(): Promise<string | undefined> {
+        if (this._initialPath) {
+            // Use stored path from context menu
+            return DeployService.resolveSourceDir(this._initialPath);
+        }
+
+        const folderUri = await vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            canSelectMany: false,
+            openLabel: 'Select Dist Folder to Upload'
+        });
+
+        if (!folderUri || folderUri.length === 0) {
+            return undefined;
+        }
+        return folderUri[0].fsPath;
+    }
+
     private _update() {
         const profiles = this.configService.getProfiles();
-        const defaultProfile = this.configService.getDefaultProfile();
-        this._panel.webview.html = this._getHtmlForWebview(profiles, defaultProfile);
+        // The bsp-manager.json of the project decides the default target
+        const defaultProfile = this.configService.getProjectDefaultProfile(this._initialPath);
+        const workspaceConfig = this.configService.getWorkspaceConfig(this._initialPath);
+        this._panel.webview.html = this._getHtmlForWebview(profiles, defaultProfile, workspaceConfig);
     }
 
     public dispose() {
@@ -308,10 +426,12 @@ export class DeployFormPanel {
         }
     }
 
-    private _getHtmlForWebview(profiles: SapProfile[], defaultProfileName: string | undefined): string {
+    private _getHtmlForWebview(profiles: SapProfile[], defaultProfileName: string | undefined, workspaceConfig?: WorkspaceBspConfig): string {
+        const attr = (value: string | undefined) => (value || '').replace(/&/g, '&amp;').replace(/"/g, '&quot;');
         const profileOptions = profiles.map(p => 
-            `<option value="${p.name}" ${p.name === defaultProfileName ? 'selected' : ''}>${p.name} (${p.server})</option>`
+            `<option value="${p.name}" ${p.name === defaultProfileName ? 'selected' : ''}>${p.name} (${p.server})${p.protection === 'readOnly' ? ' - read-only' : p.protection === 'confirm' ? ' - protected' : ''}</option>`
         ).join('');
+        const deltaDefault = vscode.workspace.getConfiguration('bspManager').get<boolean>('deltaDeploy', true);
 
         return `<!DOCTYPE html>
 <html lang="en">
@@ -1055,7 +1175,7 @@ export class DeployFormPanel {
                 <div id="newAppUI">
                     <div class="form-group">
                         <label>Application Name <span style="color: #f44336;">*</span> <span class="sub-label">(Max 15 chars, must start with Z)</span></label>
-                        <input type="text" id="newAppName" maxlength="15" placeholder="ZMY_APP" style="text-transform:uppercase; font-weight:bold; letter-spacing:1px;">
+                        <input type="text" id="newAppName" maxlength="15" placeholder="ZMY_APP" value="${attr(workspaceConfig?.bspName)}" style="text-transform:uppercase; font-weight:bold; letter-spacing:1px;">
                         <div class="error-message" id="newAppNameError">Application Name is required</div>
                     </div>
 
@@ -1068,7 +1188,7 @@ export class DeployFormPanel {
                     <div class="form-group">
                         <label>ABAP Package <span style="color: #f44336;">*</span></label>
                         <div class="package-combobox" id="pkgCombobox">
-                            <input type="text" id="newAppPkg" placeholder="Search or select package..." autocomplete="off" style="text-transform:uppercase;">
+                            <input type="text" id="newAppPkg" placeholder="Search or select package..." value="${attr(workspaceConfig?.package)}" autocomplete="off" style="text-transform:uppercase;">
                             <div class="pkg-dropdown" id="pkgDropdown">
                                 <div class="pkg-loading">Loading packages...</div>
                             </div>
@@ -1197,7 +1317,27 @@ export class DeployFormPanel {
                         <span class="sum-label">Transport</span>
                         <span class="sum-val" id="sumTr"></span>
                     </div>
+                    <div class="summary-row" id="sumFilesRow" style="display:none;">
+                        <span class="sum-label">Files</span>
+                        <span class="sum-val" id="sumFiles"></span>
+                    </div>
+                </div>
+
+                <div id="writtenFilesBox" style="display:none; margin-top:15px;">
+                    <label>Written before the stop</label>
+                    <pre id="writtenFiles" style="max-height:200px; overflow:auto; margin:0; padding:8px; font-size:12px; border:1px solid var(--border-color); border-radius:4px;"></pre>
                 </div>
+
+                <label style="display:flex; align-items:center; gap:8px; margin-top:15px; text-transform:none; font-weight:normal; font-size:13px; cursor:pointer;">
+                    <input type="checkbox" id="deltaDeploy" ${deltaDefault ? 'checked' : ''} style="width:auto; margin:0;">
+                    Only upload new and changed files (compared with the last deploy from this machine)
+                </label>
+                <label style="display:flex; align-items:center; gap:8px; margin-top:8px; text-transform:none; font-weight:normal; font-size:13px; cursor:pointer;">
+                    <input type="checkbox" id="syncDeletions" style="width:auto; margin:0;">
+                    Delete files on the server that no longer exist locally (asks for confirmation)
+                </label>
+
+                <button class="btn btn-secondary" id="btnPreview" onclick="previewDeploy()" style="margin-top:15px;">Preview Changes</button>
                 
                 <!-- Output Log: Removed as per user request -->
             </div>
@@ -1237,7 +1377,9 @@ export class DeployFormPanel {
             trOption: '',
             trDescription: '',
             skippedStep3: false,
-            isLocked: false
+            isLocked: false,
+            delta: true,
+            syncDeletions: false
         };
         let availableTrs = [];
 
@@ -1356,12 +1498,25 @@ export class DeployFormPanel {
             }
 
             if (currentStep === 4) {
+                 wizardData.delta = document.getElementById('deltaDeploy').checked;
+                 wizardData.syncDeletions = document.getElementById('syncDeletions').checked;
+                 document.getElementById('sumFilesRow').style.display = 'none';
+                 document.getElementById('writtenFilesBox').style.display = 'none';
                  vscode.postMessage({ command: 'deploy', data: wizardData });
                  return;
             }
 
             showStep(currentStep + 1);
         }
+
+        function previewDeploy() {
+            const btn = document.getElementById('btnPreview');
+            btn.disabled = true;
+            btn.innerText = 'Preparing...';
+            wizardData.delta = document.getElementById('deltaDeploy').checked;
+            wizardData.syncDeletions = document.getElementById('syncDeletions').checked;
+            vscode.postMessage({ command: 'preview', data: wizardData });
+        }
         
         function prepareSummary() {
             document.getElementById('sumProfile').innerText = wizardData.profile;
@@ -1906,6 +2061,27 @@ export class DeployFormPanel {
                 case 'deployLog':
                     logToTerminal(msg.message);
                     break;
+                case 'deployFinished':
+                    if (msg.success) {
+                        document.getElementById('sumFiles').innerText = 
+                            msg.created + ' new, ' + msg.updated + ' modified, ' + msg.deleted + ' deleted, ' + msg.unchanged + ' unchanged';
+                        document.getElementById('sumFilesRow').style.display = 'flex';
+                    } else if (msg.cancelled) {
+                        document.getElementById('sumFiles').innerText = 'Cancelled, ' + msg.written.length + ' object(s) written';
+                        document.getElementById('sumFilesRow').style.display = 'flex';
+                        document.getElementById('writtenFiles').innerText = msg.written.length > 0 ? msg.written.join('\\n') : 'Nothing was written.';
+                        document.getElementById('writtenFilesBox').style.display = 'block';
+                    }
+                    break;
+                case 'previewFinished':
+                    document.getElementById('btnPreview').disabled = false;
+                    document.getElementById('btnPreview').innerText = 'Preview Changes';
+                    if (msg.success) {
+                        document.getElementById('sumFiles').innerText = 
+                            'Planned: ' + msg.created + ' new, ' + msg.updated + ' modified, ' + msg.deleted + ' deleted, ' + msg.unchanged + ' unchanged';
+                        document.getElementById('sumFilesRow').style.display = 'flex';
+                    }
+                    break;
                 case 'setUi5Version':
                     document.getElementById('ui5Version').innerText = msg.version;
                     break;
@@ -1,6 +1,9 @@
 import * as vscode from 'vscode';
-import { SapProfile } from '../services/SapConnection';
+import { OAuthGrantType, ProfileProtection, SapAuthType, SapConnectionConfig, SapProfile } from '../services/SapConnection';
 import { ConfigService } from '../services/ConfigService';
+import { BspService } from '../services/BspService';
+import { OAuthService } from '../services/OAuthService';
+import { describeProfileDeletion } from '../commands/confirmProtected';
 
 export class ProfileFormPanel {
     public static currentPanel: ProfileFormPanel | undefined;
@@ -75,6 +78,9 @@ export class ProfileFormPanel {
                     case 'testConnection':
                         await this._testConnection(message.data);
                         break;
+                    case 'pickFile':
+                        await this._pickFile(message.target);
+                        break;
                     case 'cancel':
                         this._panel.dispose();
                         break;
@@ -91,20 +97,63 @@ export class ProfileFormPanel {
         client: string;
         user: string;
         password: string;
+        authType: SapAuthType;
+        certificatePath: string;
+        keyPath: string;
+        passphrase: string;
+        serviceKey: string;
+        oauthGrantType: OAuthGrantType;
+        proxyUrl: string;
+        proxyUser: string;
+        proxyPassword: string;
+        proxyBypass: string;
         useStrictSSL: boolean;
+        bspNamePatterns: string;
+        language: string;
+        protection: ProfileProtection;
         setAsDefault: boolean;
     }) {
         try {
+            const patterns = BspService.parseNamePatterns(data.bspNamePatterns || '');
+            const isCertificate = data.authType === 'certificate';
+            const isOAuth = data.authType === 'oauth';
+            if (isOAuth) {
+                OAuthService.parseServiceKey(data.serviceKey);
+            }
+            const previous = this.configService.getProfile(data.name);
             const profile: SapProfile = {
                 name: data.name,
                 server: data.server,
                 client: data.client,
                 user: data.user,
-                useStrictSSL: data.useStrictSSL
+                useStrictSSL: data.useStrictSSL,
+                bspNamePatterns: patterns.length > 0 ? patterns : undefined,
+                certificatePath: isCertificate ? data.certificatePath : undefined,
+                keyPath: isCertificate && data.keyPath ? data.keyPath : undefined,
+                authType: isCertificate ? 'certificate' : isOAuth ? 'oauth' : undefined,
+                oauthGrantType: isOAuth ? data.oauthGrantType : undefined,
+                proxyUrl: data.proxyUrl || undefined,
+                proxyUser: data.proxyUrl && data.proxyUser ? data.proxyUser : undefined,
+                proxyBypass: data.proxyUrl ? ProfileFormPanel.parseBypass(data.proxyBypass) : undefined,
+                protection: data.protection !== 'open' ? data.protection : undefined,
+                language: data.language ? data.language.toUpperCase() : undefined
             };
 
             await this.configService.saveProfile(profile);
-            await this.configService.storePassword(data.name, data.password);
+            if (profile.proxyUser) {
+                await this.configService.storeProxyPassword(data.name, data.proxyPassword);
+            }
+            if (isCertificate) {
+                await this.configService.storePassphrase(data.name, data.passphrase);
+            } else if (isOAuth) {
+                // A new key or flow needs a new login, otherwise cached tokens are kept
+                const storedKey = await this.configService.getServiceKey(data.name);
+                if (storedKey !== data.serviceKey || previous?.oauthGrantType !== data.oauthGrantType) {
+                    await this.configService.storeServiceKey(data.name, data.serviceKey);
+                }
+            } else {
+                await this.configService.storePassword(data.name, data.password);
+            }
 
             if (data.setAsDefault) {
                 await this.configService.setDefaultProfile(data.name);
@@ -126,7 +175,7 @@ export class ProfileFormPanel {
     private async _deleteProfile(profileName: string) {
         const confirm = await vscode.window.showWarningMessage(
             `Are you sure you want to delete profile "${profileName}"?`,
-            { modal: true },
+            { modal: true, detail: describeProfileDeletion(this.configService, profileName) },
             'Delete'
         );
 
@@ -143,60 +192,131 @@ export class ProfileFormPanel {
         client: string;
         user: string;
         password: string;
+        authType: SapAuthType;
+        certificatePath: string;
+        keyPath: string;
+        passphrase: string;
+        serviceKey: string;
+        oauthGrantType: OAuthGrantType;
+        proxyUrl: string;
+        proxyUser: string;
+        proxyPassword: string;
+        proxyBypass: string;
         useStrictSSL: boolean;
+        language: string;
     }) {
         try {
             this._panel.webview.postMessage({ command: 'testing' });
 
-            const { SapConnection } = require('../services/SapConnection');
-            const connection = new SapConnection({
+            const config: SapConnectionConfig = {
                 name: 'test',
                 server: data.server,
                 client: data.client,
                 user: data.user,
                 password: data.password,
-                useStrictSSL: data.useStrictSSL
-            });
+                authType: data.authType,
+                certificatePath: data.certificatePath,
+                keyPath: data.keyPath || undefined,
+                passphrase: data.passphrase,
+                proxyUrl: data.proxyUrl || undefined,
+                proxyUser: data.proxyUser || undefined,
+                proxyPassword: data.proxyPassword,
+                proxyBypass: ProfileFormPanel.parseBypass(data.proxyBypass),
+                useStrictSSL: data.useStrictSSL,
+                language: data.language ? data.language.toUpperCase() : undefined
+            };
+
+            // OAuth profiles sign in first, without caching the tokens
+            if (data.authType === 'oauth') {
+                const serviceKey = OAuthService.parseServiceKey(data.serviceKey);
+                config.accessToken = (await new OAuthService(this.configService).login(serviceKey, data.oauthGrantType, config)).accessToken;
+            }
+
+            const { SapConnection } = require('../services/SapConnection');
+            const connection = new SapConnection(config);
 
-            const success = await connection.testConnection();
+            // A failure throws an AdtError whose message tells the reason and what to check
+            await connection.get('/sap/bc/adt/discovery');
             
             this._panel.webview.postMessage({ 
                 command: 'testResult', 
-                success,
-                message: success ? 'Connection successful!' : 'Connection failed. Please check your settings.'
+                success: true,
+                message: 'Connection successful!'
             });
-        } catch (error) {
+        } catch (error: any) {
             this._panel.webview.postMessage({ 
                 command: 'testResult', 
                 success: false,
-                message: `Connection error: ${error}`
+                message: `Connection error: ${error.message || error}`
             });
         }
     }
 
+    private static parseBypass(value: string): string[] {
+        return (value || '').split(/[\s,;]+/).map(host => host.trim()).filter(Boolean);
+    }
+
+    private async _pickFile(target: 'certificatePath' | 'keyPath' | 'serviceKey') {
+        const filters: Record<string, { [name: string]: string[] }> = {
+            certificatePath: { 'Certificate': ['pfx', 'p12', 'pem', 'crt', 'cer'], 'All Files': ['*'] },
+            keyPath: { 'Private Key': ['pem', 'key'], 'All Files': ['*'] },
+            serviceKey: { 'Service Key': ['json', 'txt'], 'All Files': ['*'] }
+        };
+        const files = await vscode.window.showOpenDialog({
+            canSelectFiles: true,
+            canSelectFolders: false,
+            canSelectMany: false,
+            openLabel: target === 'serviceKey' ? 'Load Service Key' : target === 'keyPath' ? 'Select Private Key' : 'Select Client Certificate',
+            filters: filters[target]
+        });
+
+        if (!files || files.length === 0) {
+            return;
+        }
+
+        // The service key itself goes into the form, certificates by path
+        const value = target === 'serviceKey'
+            ? Buffer.from(await vscode.workspace.fs.readFile(files[0])).toString('utf8')
+            : files[0].fsPath;
+        this._panel.webview.postMessage({ command: 'filePicked', target, path: value });
+    }
+
     private async _update() {
         const webview = this._panel.webview;
         
         let existingProfile: SapProfile | undefined;
         let existingPassword = '';
+        let existingPassphrase = '';
+        let existingServiceKey = '';
+        let existingProxyPassword = '';
         
         if (this.editingProfile) {
             existingProfile = this.configService.getProfile(this.editingProfile);
             existingPassword = await this.configService.getPassword(this.editingProfile) || '';
+            existingPassphrase = await this.configService.getPassphrase(this.editingProfile) || '';
+            existingServiceKey = await this.configService.getServiceKey(this.editingProfile) || '';
+            existingProxyPassword = await this.configService.getProxyPassword(this.editingProfile) || '';
             this._panel.title = `Edit Profile: ${this.editingProfile}`;
         } else {
             this._panel.title = 'Add SAP Profile';
         }
 
-        webview.html = this._getHtmlForWebview(webview, existingProfile, existingPassword);
+        webview.html = this._getHtmlForWebview(webview, existingProfile, existingPassword, existingPassphrase, existingServiceKey, existingProxyPassword);
     }
 
     private _getHtmlForWebview(
         webview: vscode.Webview, 
         existingProfile?: SapProfile,
-        existingPassword?: string
+        existingPassword?: string,
+        existingPassphrase?: string,
+        existingServiceKey?: string,
+        existingProxyPassword?: string
     ): string {
         const isEditing = !!existingProfile;
+        const isCertificate = existingProfile?.authType === 'certificate';
+        const isOAuth = existingProfile?.authType === 'oauth';
+        const protection = existingProfile?.protection || 'open';
+        const isClientCredentials = existingProfile?.oauthGrantType === 'client_credentials';
         const defaultProfile = this.configService.getDefaultProfile();
         const isCurrentDefault = existingProfile?.name === defaultProfile;
 
@@ -384,6 +504,21 @@ export class ProfileFormPanel {
         
         .toggle-btn input { display: none; }
 
+        .proxy { margin-bottom: 24px; }
+        .proxy summary {
+            cursor: pointer;
+            font-size: 12px;
+            color: var(--text-secondary);
+            margin-bottom: 16px;
+        }
+
+        .service-key {
+            min-height: 90px;
+            resize: vertical;
+            font-family: var(--vscode-editor-font-family);
+            font-size: 11px;
+        }
+
         /* Buttons */
         .actions {
             display: flex;
@@ -515,27 +650,150 @@ export class ProfileFormPanel {
                     <div class="input-icon">${iconGlobe}</div>
                     <label for="server" class="floating-label">Server URL</label>
                 </div>
-                <div class="input-group">
-                    <input type="text" id="client" class="input-field" placeholder=" " maxlength="3" value="${existingProfile?.client || ''}" required>
+                <div class="input-group" id="clientGroup" ${isOAuth ? 'style="display:none"' : ''}>
+                    <input type="text" id="client" class="input-field" placeholder=" " maxlength="3" value="${existingProfile?.client || ''}">
                     <div class="input-icon">#</div>
                     <label for="client" class="floating-label">Client</label>
                 </div>
             </div>
 
+            <!-- Authentication Type -->
+            <div class="toggles">
+                <label class="toggle-btn auth-btn ${!isCertificate && !isOAuth ? 'active' : ''}">
+                    <input type="radio" name="authType" value="basic" ${!isCertificate && !isOAuth ? 'checked' : ''}>
+                    <span>🔑 Password</span>
+                </label>
+                <label class="toggle-btn auth-btn ${isCertificate ? 'active' : ''}">
+                    <input type="radio" name="authType" value="certificate" ${isCertificate ? 'checked' : ''}>
+                    <span>📜 Certificate</span>
+                </label>
+                <label class="toggle-btn auth-btn ${isOAuth ? 'active' : ''}">
+                    <input type="radio" name="authType" value="oauth" ${isOAuth ? 'checked' : ''}>
+                    <span>☁️ BTP OAuth</span>
+                </label>
+            </div>
+
             <!-- User & Pass Row -->
             <div class="row">
                 <div class="input-group">
-                    <input type="text" id="user" class="input-field" placeholder=" " value="${existingProfile?.user || ''}" required>
+                    <input type="text" id="user" class="input-field" placeholder=" " value="${existingProfile?.user || ''}">
                     <div class="input-icon">${iconUser}</div>
                     <label for="user" class="floating-label">Username</label>
                 </div>
-                <div class="input-group">
-                    <input type="password" id="password" class="input-field" placeholder=" " value="${existingPassword || ''}" required>
+                <div class="input-group" id="passwordGroup" ${isCertificate ? 'style="display:none"' : ''}>
+                    <input type="password" id="password" class="input-field" placeholder=" " value="${existingPassword || ''}">
                     <div class="input-icon">${iconPass}</div>
                     <label for="password" class="floating-label">Password</label>
                 </div>
             </div>
 
+            <!-- X.509 Client Certificate -->
+            <div id="certificateSection" ${!isCertificate ? 'style="display:none"' : ''}>
+                <div class="row row-large">
+                    <div class="input-group">
+                        <input type="text" id="certificatePath" class="input-field" placeholder=" " value="${existingProfile?.certificatePath || ''}">
+                        <div class="input-icon">${iconFingerprint}</div>
+                        <label for="certificatePath" class="floating-label">Certificate (PFX/P12 or PEM)</label>
+                    </div>
+                    <div class="input-group">
+                        <button type="button" class="btn btn-secondary" data-pick="certificatePath">Browse...</button>
+                    </div>
+                </div>
+                <div class="row row-large">
+                    <div class="input-group">
+                        <input type="text" id="keyPath" class="input-field" placeholder=" " value="${existingProfile?.keyPath || ''}">
+                        <div class="input-icon">${iconPass}</div>
+                        <label for="keyPath" class="floating-label">Private Key (PEM, optional)</label>
+                    </div>
+                    <div class="input-group">
+                        <button type="button" class="btn btn-secondary" data-pick="keyPath">Browse...</button>
+                    </div>
+                </div>
+                <div class="input-group">
+                    <input type="password" id="passphrase" class="input-field" placeholder=" " value="${existingPassphrase || ''}">
+                    <div class="input-icon">${iconPass}</div>
+                    <label for="passphrase" class="floating-label">Passphrase (optional)</label>
+                </div>
+            </div>
+
+            <!-- SAP BTP ABAP environment (OAuth with service key) -->
+            <div id="oauthSection" ${!isOAuth ? 'style="display:none"' : ''}>
+                <div class="input-group">
+                    <textarea id="serviceKey" class="input-field service-key" placeholder=" " spellcheck="false">${(existingServiceKey || '').replace(/&/g, '&amp;').replace(/</g, '&lt;')}</textarea>
+                    <div class="input-icon">${iconPass}</div>
+                    <label for="serviceKey" class="floating-label">Service Key (JSON)</label>
+                </div>
+                <div class="row">
+                    <div class="input-group">
+                        <button type="button" class="btn btn-secondary" data-pick="serviceKey">Load from File...</button>
+                    </div>
+                    <div class="input-group">
+                        <select id="oauthGrantType" class="input-field">
+                            <option value="authorization_code" ${!isClientCredentials ? 'selected' : ''}>Browser Login</option>
+                            <option value="client_credentials" ${isClientCredentials ? 'selected' : ''}>Client Credentials</option>
+                        </select>
+                        <div class="input-icon">${iconUser}</div>
+                    </div>
+                </div>
+            </div>
+
+            <!-- BSP name patterns -->
+            <div class="input-group">
+                <input type="text" id="bspNamePatterns" class="input-field" placeholder=" " value="${(existingProfile?.bspNamePatterns || BspService.DEFAULT_NAME_PATTERNS).join(', ')}">
+                <div class="input-icon">${iconServer}</div>
+                <label for="bspNamePatterns" class="floating-label">BSP Name Patterns (e.g. Z*, Y*, /UISAP/* or * for all)</label>
+            </div>
+
+            <!-- Logon language (sap-language) -->
+            <div class="input-group">
+                <input type="text" id="language" class="input-field" placeholder=" " maxlength="2" style="text-transform:uppercase;" value="${existingProfile?.language || ''}">
+                <div class="input-icon">${iconGlobe}</div>
+                <label for="language" class="floating-label">Logon Language (e.g. EN, TR; empty for the user's default)</label>
+            </div>
+
+            <!-- HTTP proxy -->
+            <details class="proxy" ${existingProfile?.proxyUrl ? 'open' : ''}>
+                <summary>Proxy (optional, else VS Code's http.proxy)</summary>
+                <div class="input-group">
+                    <input type="text" id="proxyUrl" class="input-field" placeholder=" " value="${existingProfile?.proxyUrl || ''}">
+                    <div class="input-icon">${iconGlobe}</div>
+                    <label for="proxyUrl" class="floating-label">Proxy URL (e.g. http://proxy.corp:8080)</label>
+                </div>
+                <div class="row">
+                    <div class="input-group">
+                        <input type="text" id="proxyUser" class="input-field" placeholder=" " value="${existingProfile?.proxyUser || ''}">
+                        <div class="input-icon">${iconUser}</div>
+                        <label for="proxyUser" class="floating-label">Proxy User</label>
+                    </div>
+                    <div class="input-group">
+                        <input type="password" id="proxyPassword" class="input-field" placeholder=" " value="${existingProxyPassword || ''}">
+                        <div class="input-icon">${iconPass}</div>
+                        <label for="proxyPassword" class="floating-label">Proxy Password</label>
+                    </div>
+                </div>
+                <div class="input-group">
+                    <input type="text" id="proxyBypass" class="input-field" placeholder=" " value="${(existingProfile?.proxyBypass || []).join(', ')}">
+                    <div class="input-icon">${iconServer}</div>
+                    <label for="proxyBypass" class="floating-label">Bypass Hosts (e.g. localhost, *.corp.local)</label>
+                </div>
+            </details>
+
+            <!-- Protection: guardrails for production clients -->
+            <div class="toggles">
+                <label class="toggle-btn protection-btn ${protection === 'open' ? 'active' : ''}" title="Deploys without extra confirmation">
+                    <input type="radio" name="protection" value="open" ${protection === 'open' ? 'checked' : ''}>
+                    <span>🟢 Open</span>
+                </label>
+                <label class="toggle-btn protection-btn ${protection === 'confirm' ? 'active' : ''}" title="Every deploy needs the profile name typed in">
+                    <input type="radio" name="protection" value="confirm" ${protection === 'confirm' ? 'checked' : ''}>
+                    <span>🟠 Confirm</span>
+                </label>
+                <label class="toggle-btn protection-btn ${protection === 'readOnly' ? 'active' : ''}" title="Browse and compare only, nothing is ever written">
+                    <input type="radio" name="protection" value="readOnly" ${protection === 'readOnly' ? 'checked' : ''}>
+                    <span>🔴 Read-only</span>
+                </label>
+            </div>
+
             <!-- Toggles (Fancy Checkboxes) -->
             <div class="toggles">
                 <label class="toggle-btn ${existingProfile?.useStrictSSL !== false ? 'active' : ''}" id="lblSSL">
@@ -572,12 +830,59 @@ export class ProfileFormPanel {
         const vscode = acquireVsCodeApi();
 
         // Toggle Visual Logic
-        document.querySelectorAll('.toggle-btn input').forEach(input => {
+        document.querySelectorAll('.toggle-btn input[type=checkbox]').forEach(input => {
             input.addEventListener('change', e => {
                 e.target.parentElement.classList.toggle('active', e.target.checked);
             });
         });
 
+        // Authentication type: password or client certificate
+        function getAuthType() {
+            return document.querySelector('input[name=authType]:checked').value;
+        }
+
+        document.querySelectorAll('input[name=authType]').forEach(input => {
+            input.addEventListener('change', () => {
+                const isCertificate = getAuthType() === 'certificate';
+                document.querySelectorAll('.auth-btn').forEach(btn => {
+                    btn.classList.toggle('active', btn.querySelector('input').checked);
+                });
+                const isOAuth = getAuthType() === 'oauth';
+                document.getElementById('passwordGroup').style.display = isCertificate || isOAuth ? 'none' : '';
+                document.getElementById('certificateSection').style.display = isCertificate ? '' : 'none';
+                document.getElementById('oauthSection').style.display = isOAuth ? '' : 'none';
+                document.getElementById('clientGroup').style.display = isOAuth ? 'none' : '';
+            });
+        });
+
+        document.querySelectorAll('input[name=protection]').forEach(input => {
+            input.addEventListener('change', () => {
+                document.querySelectorAll('.protection-btn').forEach(btn => {
+                    btn.classList.toggle('active', btn.querySelector('input').checked);
+                });
+            });
+        });
+
+        // The system URL of a pasted service key becomes the server URL
+        function applyServiceKey() {
+            try {
+                const json = JSON.parse(document.getElementById('serviceKey').value);
+                const key = json.credentials || json;
+                if (key.url && !document.getElementById('server').value.trim()) {
+                    document.getElementById('server').value = key.url;
+                }
+            } catch {
+                // Validated on save
+            }
+        }
+        document.getElementById('serviceKey').addEventListener('change', applyServiceKey);
+
+        document.querySelectorAll('[data-pick]').forEach(btn => {
+            btn.addEventListener('click', () => {
+                vscode.postMessage({ command: 'pickFile', target: btn.dataset.pick });
+            });
+        });
+
         // Toast Logic
         function showToast(message, type = 'info') {
             const container = document.getElementById('toastContainer');
@@ -609,7 +914,20 @@ export class ProfileFormPanel {
                 client: document.getElementById('client').value.trim(),
                 user: document.getElementById('user').value.trim(),
                 password: document.getElementById('password').value,
+                authType: getAuthType(),
+                certificatePath: document.getElementById('certificatePath').value.trim(),
+                keyPath: document.getElementById('keyPath').value.trim(),
+                passphrase: document.getElementById('passphrase').value,
+                serviceKey: document.getElementById('serviceKey').value.trim(),
+                oauthGrantType: document.getElementById('oauthGrantType').value,
+                proxyUrl: document.getElementById('proxyUrl').value.trim(),
+                proxyUser: document.getElementById('proxyUser').value.trim(),
+                proxyPassword: document.getElementById('proxyPassword').value,
+                proxyBypass: document.getElementById('proxyBypass').value.trim(),
                 useStrictSSL: document.getElementById('useStrictSSL').checked,
+                bspNamePatterns: document.getElementById('bspNamePatterns').value.trim(),
+                language: document.getElementById('language').value.trim(),
+                protection: document.querySelector('input[name=protection]:checked').value,
                 setAsDefault: document.getElementById('setAsDefault').checked
             };
         }
@@ -619,9 +937,18 @@ export class ProfileFormPanel {
             if (!data.name) { showToast('Profile Name is required', 'error'); return false; }
             if (!data.server) { showToast('Server URL is required', 'error'); return false; }
             try { new URL(data.server); } catch { showToast('Invalid Server URL', 'error'); return false; }
-            if (!data.client || !/^\\d{3}$/.test(data.client)) { showToast('Client must be 3 digits (e.g. 100)', 'error'); return false; }
-            if (!data.user) { showToast('Username is required', 'error'); return false; }
-            if (!data.password) { showToast('Password is required', 'error'); return false; }
+            if (data.authType !== 'oauth' && (!data.client || !/^\\d{3}$/.test(data.client))) { showToast('Client must be 3 digits (e.g. 100)', 'error'); return false; }
+            if (data.authType !== 'oauth' && !data.user) { showToast('Username is required', 'error'); return false; }
+            if (data.proxyUrl) {
+                try { new URL(data.proxyUrl); } catch { showToast('Invalid Proxy URL', 'error'); return false; }
+            }
+            if (data.authType === 'oauth') {
+                try { JSON.parse(data.serviceKey); } catch { showToast('Service key must be valid JSON', 'error'); return false; }
+            }
+            if (data.authType === 'basic' && !data.password) { showToast('Password is required', 'error'); return false; }
+            if (data.authType === 'certificate' && !data.certificatePath) { showToast('Certificate file is required', 'error'); return false; }
+            if (data.language && !/^[A-Za-z]{1,2}$/.test(data.language)) { showToast('Logon language must be a language key like EN or TR', 'error'); return false; }
+            if (!/^[A-Za-z0-9_\\/*,;\\s]*$/.test(data.bspNamePatterns)) { showToast('BSP name patterns may only contain letters, digits, _, / and *', 'error'); return false; }
             return true;
         }
 
@@ -668,6 +995,12 @@ export class ProfileFormPanel {
                     setButtonLoading('saveBtn', false);
                     showToast(message.message, 'error');
                     break;
+                case 'filePicked':
+                    document.getElementById(message.target).value = message.path;
+                    if (message.target === 'serviceKey') {
+                        applyServiceKey();
+                    }
+                    break;
             }
         });
     </script>
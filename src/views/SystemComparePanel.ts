@@ -0,0 +1,312 @@
+import * as vscode from 'vscode';
+import { ConfigService } from '../services/ConfigService';
+import { ConnectionManager } from '../services/ConnectionManager';
+import { CancelledError, SapProfile } from '../services/SapConnection';
+import { SystemComparison, SystemCompareService } from '../services/SystemCompareService';
+import { BspFileSystemProvider } from './BspFileSystemProvider';
+
+/**
+ * Compares one BSP application across two or more systems and lists the
+ * files that differ or are missing, with change metadata per system
+ */
+export class SystemComparePanel {
+    public static currentPanel: SystemComparePanel | undefined;
+    private readonly _panel: vscode.WebviewPanel;
+    private _disposables: vscode.Disposable[] = [];
+    private compareService: SystemCompareService;
+    private comparison: SystemComparison | undefined;
+
+    public static createOrShow(configService: ConfigService, connections: ConnectionManager, bspName?: string) {
+        const column = vscode.ViewColumn.One;
+
+        if (SystemComparePanel.currentPanel) {
+            SystemComparePanel.currentPanel._panel.reveal(column);
+            if (bspName) {
+                SystemComparePanel.currentPanel._panel.webview.postMessage({ command: 'setBspName', bspName });
+            }
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'systemCompare',
+            'Compare BSP across Systems',
+            column,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+
+        SystemComparePanel.currentPanel = new SystemComparePanel(panel, configService, connections, bspName);
+    }
+
+    private constructor(panel: vscode.WebviewPanel, configService: ConfigService, connections: ConnectionManager, bspName?: string) {
+        this._panel = panel;
+        this.compareService = new SystemCompareService(configService, connections);
+
+        this._panel.webview.html = this._getHtmlForWebview(configService.getProfiles(), bspName || '');
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+        this._panel.webview.onDidReceiveMessage(message => this._handleMessage(message), null, this._disposables);
+    }
+
+    private async _handleMessage(message: any) {
+        switch (message.command) {
+            case 'compare':
+                try {
+                    this.comparison = await vscode.window.withProgress({
+                        location: vscode.ProgressLocation.Notification,
+                        title: `Comparing ${message.bspName} across ${message.profiles.length} systems...`,
+                        cancellable: true
+                    }, (progress, token) => this.compareService.compare(message.bspName, message.profiles, progress, token));
+
+                    this._panel.webview.postMessage({ command: 'result', comparison: this.comparison });
+                } catch (error: any) {
+                    const text = error instanceof CancelledError ? 'Comparison cancelled' : String(error.message || error);
+                    this._panel.webview.postMessage({ command: 'error', message: text });
+                }
+                break;
+
+            case 'diff':
+                if (this.comparison) {
+                    const left = this.comparison.systems[message.left];
+                    const right = this.comparison.systems[message.right];
+                    await vscode.commands.executeCommand(
+                        'vscode.diff',
+                        BspFileSystemProvider.uriFor(left.profile, this.comparison.bspName, message.path),
+                        BspFileSystemProvider.uriFor(right.profile, this.comparison.bspName, message.path),
+                        `${message.path} (${left.profile} ↔ ${right.profile})`
+                    );
+                }
+                break;
+
+            case 'open':
+                if (this.comparison) {
+                    const system = this.comparison.systems[message.system];
+                    await vscode.commands.executeCommand(
+                        'vscode.open',
+                        BspFileSystemProvider.uriFor(system.profile, this.comparison.bspName, message.path)
+                    );
+                }
+                break;
+        }
+    }
+
+    public dispose() {
+        SystemComparePanel.currentPanel = undefined;
+        this._panel.dispose();
+        while (this._disposables.length) {
+            const x = this._disposables.pop();
+            if (x) {
+                x.dispose();
+            }
+        }
+    }
+
+    private _getHtmlForWebview(profiles: SapProfile[], bspName: string): string {
+        const profileChecks = profiles.map(p =>
+            `<label class="check"><input type="checkbox" value="${this.escapeHtml(p.name)}"> ${this.escapeHtml(p.name)} <span class="muted">${this.escapeHtml(p.server)}</span></label>`
+        ).join('');
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Compare BSP across Systems</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: 13px;
+            color: var(--vscode-foreground);
+            background: var(--vscode-editor-background);
+            padding: 16px 24px;
+        }
+        h2 { font-weight: 600; margin: 0 0 12px 0; }
+        .form { display: flex; flex-wrap: wrap; gap: 16px; align-items: flex-start; margin-bottom: 16px; }
+        .form input[type=text] {
+            padding: 4px 8px;
+            border: 1px solid var(--vscode-input-border);
+            background: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            text-transform: uppercase;
+        }
+        .profiles { display: flex; flex-direction: column; gap: 4px; }
+        .check { cursor: pointer; }
+        .muted { color: var(--vscode-descriptionForeground); font-size: 11px; }
+        button {
+            padding: 5px 14px;
+            border: none;
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            cursor: pointer;
+        }
+        button:hover { background: var(--vscode-button-hoverBackground); }
+        button:disabled { opacity: 0.5; cursor: not-allowed; }
+        .systems { display: flex; gap: 12px; flex-wrap: wrap; margin: 12px 0; }
+        .system {
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 4px;
+            padding: 8px 12px;
+            min-width: 180px;
+        }
+        .system .name { font-weight: 600; }
+        .error { color: var(--vscode-errorForeground); }
+        table { border-collapse: collapse; width: 100%; margin-top: 8px; }
+        th, td { text-align: left; padding: 3px 8px; border-bottom: 1px solid var(--vscode-panel-border); }
+        td.cell { font-family: var(--vscode-editor-font-family); cursor: pointer; }
+        td.missing { color: var(--vscode-errorForeground); cursor: default; }
+        .status-different { color: var(--vscode-gitDecoration-modifiedResourceForeground); }
+        .status-missing { color: var(--vscode-gitDecoration-deletedResourceForeground); }
+        .toolbar { display: flex; gap: 16px; align-items: center; margin-top: 12px; }
+    </style>
+</head>
+<body>
+    <h2>Compare BSP across Systems</h2>
+    <div class="form">
+        <div>
+            <div class="muted">BSP Application</div>
+            <input type="text" id="bspName" value="${this.escapeHtml(bspName)}" placeholder="ZUI5_MY_APP">
+        </div>
+        <div>
+            <div class="muted">Systems (at least two)</div>
+            <div class="profiles" id="profiles">${profileChecks || '<span class="muted">No profiles configured</span>'}</div>
+        </div>
+        <div>
+            <button id="btnCompare" onclick="compare()">Compare</button>
+        </div>
+    </div>
+    <div id="message"></div>
+    <div id="result"></div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        let comparison;
+        let showIdentical = false;
+
+        function escapeHtml(value) {
+            return String(value ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]));
+        }
+
+        function compare() {
+            const bspName = document.getElementById('bspName').value.trim().toUpperCase();
+            const profiles = Array.from(document.querySelectorAll('#profiles input:checked')).map(c => c.value);
+            if (!bspName) {
+                showMessage('Enter a BSP application name.', true);
+                return;
+            }
+            if (profiles.length < 2) {
+                showMessage('Select at least two systems.', true);
+                return;
+            }
+            document.getElementById('btnCompare').disabled = true;
+            showMessage('Comparing...');
+            vscode.postMessage({ command: 'compare', bspName, profiles });
+        }
+
+        function showMessage(text, isError) {
+            document.getElementById('message').innerHTML = text ? '<p class="' + (isError ? 'error' : 'muted') + '">' + escapeHtml(text) + '</p>' : '';
+        }
+
+        function toggleIdentical(checked) {
+            showIdentical = checked;
+            render();
+        }
+
+        // Reference for a diff: the first readable system that has the file
+        function reference(file) {
+            return file.hashes.findIndex((hash, i) => hash !== undefined && !comparison.systems[i].error);
+        }
+
+        function cellClick(fileIndex, systemIndex) {
+            const file = comparison.files[fileIndex];
+            if (file.hashes[systemIndex] === undefined) {
+                return;
+            }
+            const ref = reference(file);
+            if (ref === systemIndex || file.hashes[ref] === file.hashes[systemIndex]) {
+                vscode.postMessage({ command: 'open', path: file.path, system: systemIndex });
+            } else {
+                vscode.postMessage({ command: 'diff', path: file.path, left: ref, right: systemIndex });
+            }
+        }
+
+        function render() {
+            const systems = comparison.systems.map(s =>
+                '<div class="system"><div class="name">' + escapeHtml(s.profile) + '</div>' +
+                '<div class="muted">' + escapeHtml(s.server) + ' (' + escapeHtml(s.client) + ')</div>' +
+                (s.error
+                    ? '<div class="error">' + escapeHtml(s.error) + '</div>'
+                    : s.exists
+                        ? '<div>' + s.fileCount + ' files</div><div class="muted">Changed by ' + escapeHtml(s.changedBy || '-') + ' at ' + escapeHtml(s.changedAt || '-') + '</div>'
+                        : '<div class="error">Not deployed</div>') +
+                '</div>'
+            ).join('');
+
+            const counts = { identical: 0, different: 0, missing: 0 };
+            comparison.files.forEach(f => counts[f.status]++);
+
+            const rows = comparison.files
+                .map((file, fileIndex) => ({ file, fileIndex }))
+                .filter(({ file }) => showIdentical || file.status !== 'identical')
+                .map(({ file, fileIndex }) => {
+                    // Same hash, same group number
+                    const groups = [];
+                    const cells = file.hashes.map((hash, systemIndex) => {
+                        if (comparison.systems[systemIndex].error) {
+                            return '<td class="muted">?</td>';
+                        }
+                        if (hash === undefined) {
+                            return '<td class="cell missing">missing</td>';
+                        }
+                        let group = groups.indexOf(hash);
+                        if (group === -1) {
+                            groups.push(hash);
+                            group = groups.length - 1;
+                        }
+                        return '<td class="cell" title="Open / diff against the first system" onclick="cellClick(' + fileIndex + ',' + systemIndex + ')">' +
+                            String.fromCharCode(65 + group) + ' · ' + hash.substring(0, 7) + '</td>';
+                    }).join('');
+                    return '<tr><td>' + escapeHtml(file.path) + '</td><td class="status-' + file.status + '">' + file.status + '</td>' + cells + '</tr>';
+                }).join('');
+
+            document.getElementById('result').innerHTML =
+                '<div class="systems">' + systems + '</div>' +
+                '<div class="toolbar"><span>' + counts.different + ' different, ' + counts.missing + ' missing, ' + counts.identical + ' identical</span>' +
+                '<label class="check"><input type="checkbox" ' + (showIdentical ? 'checked' : '') + ' onchange="toggleIdentical(this.checked)"> Show identical files</label></div>' +
+                (rows
+                    ? '<table><thead><tr><th>File</th><th>Status</th>' + comparison.systems.map(s => '<th>' + escapeHtml(s.profile) + '</th>').join('') + '</tr></thead><tbody>' + rows + '</tbody></table>'
+                    : '<p>All files are identical.</p>');
+        }
+
+        window.addEventListener('message', event => {
+            const msg = event.data;
+            switch (msg.command) {
+                case 'result':
+                    comparison = msg.comparison;
+                    document.getElementById('btnCompare').disabled = false;
+                    showMessage('');
+                    render();
+                    break;
+                case 'error':
+                    document.getElementById('btnCompare').disabled = false;
+                    showMessage(msg.message, true);
+                    break;
+                case 'setBspName':
+                    document.getElementById('bspName').value = msg.bspName;
+                    break;
+            }
+        });
+    </script>
+</body>
+</html>`;
+    }
+
+    private escapeHtml(value: string): string {
+        return value
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#39;');
+    }
+}